@@ -0,0 +1,58 @@
+// app/api/footprint/route.ts
+
+import {NextResponse} from "next/server";
+import {calculateCarbonFootprint} from "@/lib/emissions";
+import {DEFAULT_LOCALE, isLocale, LOCALES} from "@/lib/i18n";
+import {describeIssues, PROBLEM_TYPES, problemResponse, validationProblem} from "@/lib/problem";
+import {getRecommendations} from "@/lib/recommendations";
+import {migrateFormData, STORAGE_SCHEMA_VERSION} from "@/lib/storage";
+import type {FootprintResponse} from "@/lib/types";
+import {estimateUncertainty, validateEstimatedPaths} from "@/lib/uncertainty";
+import {validateFormData, validateTypes} from "@/lib/validation";
+
+// Calcul d'une empreinte à partir d'un document FormData ; les champs absents prennent leur valeur par défaut.
+// ?locale= choisit la langue des recommandations et des messages d'erreur ; estimatedPaths liste
+// les réponses chiffrées estimées, qui élargissent les intervalles de confiance.
+export async function POST(request: Request) {
+    const locale = new URL(request.url).searchParams.get("locale") ?? DEFAULT_LOCALE;
+    if (!isLocale(locale)) {
+        return problemResponse({
+            type: PROBLEM_TYPES.unsupportedLocale,
+            title: "Unsupported locale",
+            status: 400,
+            detail: `Supported locales: ${LOCALES.join(", ")}.`,
+        });
+    }
+
+    const body: unknown = await request.json().catch(() => undefined);
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+        return problemResponse({
+            type: PROBLEM_TYPES.invalidJson,
+            title: "Invalid JSON body",
+            status: 400,
+            detail: "The request body must be a JSON FormData object.",
+        });
+    }
+
+    const {estimatedPaths, ...answers} = body as Record<string, unknown>;
+    const typeIssues = [...validateTypes(answers), ...validateEstimatedPaths(estimatedPaths)];
+    if (typeIssues.length > 0) {
+        return validationProblem(typeIssues, locale);
+    }
+    const formData = migrateFormData(answers, STORAGE_SCHEMA_VERSION);
+    const issues = validateFormData(formData);
+    const errors = issues.filter((issue) => issue.severity === "error");
+    if (errors.length > 0) {
+        return validationProblem(errors, locale);
+    }
+
+    const result = calculateCarbonFootprint(formData);
+    const response: FootprintResponse = {
+        result,
+        recommendations: getRecommendations(formData, result.factorDataset, locale),
+        factorDataset: result.factorDataset,
+        uncertainty: estimateUncertainty(formData, (estimatedPaths ?? []) as string[]),
+        warnings: describeIssues(issues.filter((issue) => issue.severity === "warning"), locale),
+    };
+    return NextResponse.json(response);
+}
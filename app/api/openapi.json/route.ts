@@ -0,0 +1,8 @@
+// app/api/openapi.json/route.ts
+
+import {NextResponse} from "next/server";
+import {openApiDocument} from "@/lib/openapi";
+
+export function GET() {
+    return NextResponse.json(openApiDocument());
+}
@@ -0,0 +1,9 @@
+// app/api/options/route.ts
+
+import {NextResponse} from "next/server";
+import {API_OPTIONS} from "@/lib/options";
+
+// Valeurs acceptées par POST /api/footprint pour les réponses à choix
+export function GET() {
+    return NextResponse.json(API_OPTIONS);
+}
@@ -0,0 +1,26 @@
+// app/api/schemas/[name]/route.ts
+
+import {NextResponse} from "next/server";
+import {isPublishedSchema, jsonSchemaDocument, PUBLISHED_SCHEMAS} from "@/lib/json-schema";
+import {PROBLEM_TYPES, problemResponse} from "@/lib/problem";
+
+interface SchemaRouteContext {
+    params: { name: string };
+}
+
+// Schémas générés au build, un fichier par nom publié
+export const generateStaticParams = () => Object.keys(PUBLISHED_SCHEMAS).map((name) => ({name}));
+
+export function GET(_request: Request, {params}: SchemaRouteContext) {
+    if (!isPublishedSchema(params.name)) {
+        return problemResponse({
+            type: PROBLEM_TYPES.schemaNotFound,
+            title: "Schema not found",
+            status: 404,
+            detail: `Published schemas: ${Object.keys(PUBLISHED_SCHEMAS).join(", ")}.`,
+        });
+    }
+    return NextResponse.json(jsonSchemaDocument(params.name), {
+        headers: {"Content-Type": "application/schema+json"},
+    });
+}
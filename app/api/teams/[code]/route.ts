@@ -0,0 +1,26 @@
+// app/api/teams/[code]/route.ts
+
+import {NextResponse} from "next/server";
+import {PROBLEM_TYPES, problemResponse} from "@/lib/problem";
+import {getTeamSummary} from "@/lib/team-store";
+import {normalizeTeamCode} from "@/lib/teams";
+
+interface TeamRouteContext {
+    params: { code: string };
+}
+
+// Tableau de bord de l'équipe, réservé à qui détient la clé d'administration (en-tête Authorization: Bearer)
+export async function GET(request: Request, {params}: TeamRouteContext) {
+    const adminKey = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+    const summary = adminKey ? await getTeamSummary(normalizeTeamCode(params.code), adminKey) : null;
+    if (!summary) {
+        // Même réponse pour un code inconnu et une mauvaise clé
+        return problemResponse({
+            type: PROBLEM_TYPES.unauthorized,
+            title: "Unauthorized",
+            status: 401,
+            detail: "Unknown team code or wrong admin key.",
+        });
+    }
+    return NextResponse.json(summary);
+}
@@ -0,0 +1,41 @@
+// app/api/teams/[code]/submissions/route.ts
+
+import {NextResponse} from "next/server";
+import {PROBLEM_TYPES, problemResponse} from "@/lib/problem";
+import {addSubmission} from "@/lib/team-store";
+import {isTeamCode, normalizeTeamCode, submissionFromResult} from "@/lib/teams";
+
+interface SubmissionRouteContext {
+    params: { code: string };
+}
+
+const teamNotFound = (code: string) =>
+    problemResponse({
+        type: PROBLEM_TYPES.teamNotFound,
+        title: "Team not found",
+        status: 404,
+        detail: `No team has the code ${code}.`,
+    });
+
+// Envoi anonyme d'un résultat : rien d'autre que la répartition n'est enregistré
+export async function POST(request: Request, {params}: SubmissionRouteContext) {
+    const code = normalizeTeamCode(params.code);
+    if (!isTeamCode(code)) {
+        return teamNotFound(code);
+    }
+    const body = await request.json().catch(() => null) as { result?: unknown } | null;
+    const submission = submissionFromResult(body?.result);
+    if (!submission) {
+        return problemResponse({
+            type: PROBLEM_TYPES.invalidResult,
+            title: "Invalid result",
+            status: 400,
+            detail: "The body must be {\"result\": CarbonFootprintResult} with a plausible breakdown.",
+        });
+    }
+    const team = await addSubmission(code, submission);
+    if (!team) {
+        return teamNotFound(code);
+    }
+    return NextResponse.json(team, {status: 201});
+}
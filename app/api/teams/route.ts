@@ -0,0 +1,21 @@
+// app/api/teams/route.ts
+
+import {NextResponse} from "next/server";
+import {PROBLEM_TYPES, problemResponse} from "@/lib/problem";
+import {createTeam} from "@/lib/team-store";
+import {MAX_TEAM_NAME_LENGTH} from "@/lib/teams";
+
+// Création d'une équipe : renvoie son code à diffuser et la clé d'administration
+export async function POST(request: Request) {
+    const body = await request.json().catch(() => null) as { name?: unknown } | null;
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+    if (!name || name.length > MAX_TEAM_NAME_LENGTH) {
+        return problemResponse({
+            type: PROBLEM_TYPES.invalidTeamName,
+            title: "Invalid team name",
+            status: 400,
+            detail: `The body must be {"name": "..."} with 1 to ${MAX_TEAM_NAME_LENGTH} characters.`,
+        });
+    }
+    return NextResponse.json(await createTeam(name), {status: 201});
+}
@@ -0,0 +1,13 @@
+// app/household/page.tsx
+
+import type {Metadata} from "next";
+import {HouseholdCalculator} from "@/components/household-calculator";
+import {DEFAULT_LOCALE, translate} from "@/lib/i18n";
+
+export const metadata: Metadata = {
+    title: translate(DEFAULT_LOCALE, "household.title"),
+};
+
+export default function HouseholdPage() {
+    return <HouseholdCalculator/>;
+}
@@ -0,0 +1,76 @@
+// app/share/[payload]/opengraph-image.tsx
+
+import {ImageResponse} from "next/og";
+import {DEFAULT_LOCALE, formatNumber, translate} from "@/lib/i18n";
+import {decodeShare, sharedResult} from "@/lib/share";
+
+export const size = {width: 1200, height: 630};
+export const contentType = "image/png";
+export const alt = translate(DEFAULT_LOCALE, "share.imageAlt");
+
+const SECTOR_COLORS = {
+    transport: "#2563eb",
+    energy: "#ea580c",
+    lifestyle: "#9333ea",
+};
+
+const SECTORS = Object.keys(SECTOR_COLORS) as (keyof typeof SECTOR_COLORS)[];
+
+// La police par défaut n'a pas les espaces insécables utilisés comme séparateur de milliers
+const number = (value: number) => formatNumber(DEFAULT_LOCALE, value, 1).replace(/\s/g, " ");
+
+export default function Image({params}: { params: { payload: string } }) {
+    const payload = decodeShare(params.payload);
+    const result = payload && sharedResult(payload);
+
+    return new ImageResponse(
+        (
+            <div
+                style={{
+                    display: "flex",
+                    flexDirection: "column",
+                    width: "100%",
+                    height: "100%",
+                    padding: 64,
+                    background: "#f9fafb",
+                    color: "#1f2937",
+                    fontSize: 32,
+                }}
+            >
+                <div style={{fontSize: 44, fontWeight: 700}}>{translate(DEFAULT_LOCALE, "app.title")}</div>
+                {result ? (
+                    <div style={{display: "flex", flexDirection: "column", marginTop: 48}}>
+                        <div style={{fontSize: 96, fontWeight: 700, color: "#16a34a"}}>
+                            {translate(DEFAULT_LOCALE, "units.tonnesShortPerYear", {value: number(result.total)})}
+                        </div>
+                        <div style={{display: "flex", width: "100%", height: 40, marginTop: 40, borderRadius: 8, overflow: "hidden"}}>
+                            {SECTORS.map((sector) => (
+                                <div
+                                    key={sector}
+                                    style={{
+                                        width: `${result.total > 0 ? (result.breakdown[sector] / result.total) * 100 : 0}%`,
+                                        background: SECTOR_COLORS[sector],
+                                    }}
+                                />
+                            ))}
+                        </div>
+                        <div style={{display: "flex", marginTop: 32}}>
+                            {SECTORS.map((sector) => (
+                                <div key={sector} style={{display: "flex", alignItems: "center", marginRight: 48}}>
+                                    <div style={{width: 24, height: 24, borderRadius: 12, background: SECTOR_COLORS[sector], marginRight: 12}}/>
+                                    {translate(DEFAULT_LOCALE, "share.imageSector", {
+                                        sector: translate(DEFAULT_LOCALE, `sectors.${sector}`),
+                                        value: number(result.breakdown[sector]),
+                                    })}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                ) : (
+                    <div style={{marginTop: 48}}>{translate(DEFAULT_LOCALE, "share.invalid")}</div>
+                )}
+            </div>
+        ),
+        size
+    );
+}
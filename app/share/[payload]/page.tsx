@@ -0,0 +1,30 @@
+// app/share/[payload]/page.tsx
+
+import type {Metadata} from "next";
+import {SharedResultView} from "@/components/shared-result-view";
+import {DEFAULT_LOCALE, formatNumber, translate} from "@/lib/i18n";
+import {decodeShare, sharedResult} from "@/lib/share";
+
+interface SharePageProps {
+    params: { payload: string };
+}
+
+export function generateMetadata({params}: SharePageProps): Metadata {
+    const payload = decodeShare(params.payload);
+    if (!payload) {
+        return {title: translate(DEFAULT_LOCALE, "share.invalid")};
+    }
+    const {total, breakdown} = sharedResult(payload);
+    const tonnes = (value: number) => formatNumber(DEFAULT_LOCALE, value, 1);
+    const title = translate(DEFAULT_LOCALE, "share.metaTitle", {value: tonnes(total)});
+    const description = translate(DEFAULT_LOCALE, "share.metaDescription", {
+        transport: tonnes(breakdown.transport),
+        energy: tonnes(breakdown.energy),
+        lifestyle: tonnes(breakdown.lifestyle),
+    });
+    return {title, description, openGraph: {title, description}};
+}
+
+export default function SharePage({params}: SharePageProps) {
+    return <SharedResultView token={params.payload}/>;
+}
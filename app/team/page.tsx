@@ -0,0 +1,13 @@
+// app/team/page.tsx
+
+import type {Metadata} from "next";
+import {TeamAdmin} from "@/components/team-admin";
+import {DEFAULT_LOCALE, translate} from "@/lib/i18n";
+
+export const metadata: Metadata = {
+    title: translate(DEFAULT_LOCALE, "team.title"),
+};
+
+export default function TeamPage() {
+    return <TeamAdmin/>;
+}
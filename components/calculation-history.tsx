@@ -0,0 +1,64 @@
+// components/calculation-history.tsx
+"use client";
+
+import {Card} from "@/components/ui/card";
+import {Button} from "@/components/ui/button";
+import {useI18n} from "@/components/i18n-provider";
+import type {SavedCalculation} from "@/lib/storage";
+
+interface CalculationHistoryProps {
+    history: SavedCalculation[];
+    onView: (calculation: SavedCalculation) => void;
+    onDelete: (id: string) => void;
+    onShowTrends: () => void;
+}
+
+export function CalculationHistory({history, onView, onDelete, onShowTrends}: CalculationHistoryProps) {
+    const {t, formatDate, formatTonnes} = useI18n();
+
+    if (history.length === 0) {
+        return null;
+    }
+
+    const sortedHistory = [...history].sort((a, b) => b.date.localeCompare(a.date));
+
+    return (
+        <Card className="p-6 mt-8">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold">{t("history.title")}</h2>
+                <Button variant="outline" size="sm" onClick={onShowTrends}>
+                    {t("history.showTrends")}
+                </Button>
+            </div>
+            <div className="space-y-3">
+                {sortedHistory.map((calculation) => (
+                    <div
+                        key={calculation.id}
+                        className="flex items-center justify-between p-4 bg-gray-50 rounded-lg"
+                    >
+                        <div>
+                            <div className="font-medium">
+                                {formatDate(calculation.date, {
+                                    day: "numeric",
+                                    month: "long",
+                                    year: "numeric",
+                                })}
+                            </div>
+                            <div className="text-sm text-gray-600">
+                                {t("units.tonnesPerYear", {value: formatTonnes(calculation.result.total)})}
+                            </div>
+                        </div>
+                        <div className="flex space-x-2">
+                            <Button variant="outline" size="sm" onClick={() => onView(calculation)}>
+                                {t("common.view")}
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => onDelete(calculation.id)}>
+                                {t("common.delete")}
+                            </Button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </Card>
+    );
+}
@@ -0,0 +1,136 @@
+// components/commute-builder.tsx
+"use client";
+
+import {Input} from "@/components/ui/input";
+import {Button} from "@/components/ui/button";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {FieldIssues} from "@/components/field-issues";
+import {useI18n} from "@/components/i18n-provider";
+import {COMMUTE_MODES, commuteAnnualKm} from "@/lib/commute";
+import type {CommuteTrip} from "@/lib/types";
+import type {ValidationIssue} from "@/lib/validation";
+
+interface CommuteBuilderProps {
+    trips: CommuteTrip[];
+    issues?: ValidationIssue[];
+    onChange: (trips: CommuteTrip[]) => void;
+}
+
+const emptyTrip: CommuteTrip = {
+    mode: "car",
+    distanceKm: 0,
+    tripsPerWeek: 10,
+    weeksPerYear: 45,
+};
+
+export function CommuteBuilder({trips, issues = [], onChange}: CommuteBuilderProps) {
+    const {t, formatNumber} = useI18n();
+
+    const tripIssues = (index: number, field: keyof CommuteTrip) =>
+        issues.filter((issue) => issue.path === `transport.commutes.${index}.${field}`);
+
+    const updateTrip = (index: number, changes: Partial<CommuteTrip>) =>
+        onChange(trips.map((trip, tripIndex) => (tripIndex === index ? {...trip, ...changes} : trip)));
+
+    const removeTrip = (index: number) =>
+        onChange(trips.filter((_, tripIndex) => tripIndex !== index));
+
+    const totalKm = trips.reduce((total, trip) => total + commuteAnnualKm(trip), 0);
+
+    return (
+        <div className="space-y-4">
+            {trips.map((trip, index) => (
+                <div key={index} className="p-4 bg-gray-50 rounded-lg space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium mb-2">
+                                {t("transport.commutes.mode")}
+                            </label>
+                            <Select
+                                value={trip.mode}
+                                onValueChange={(value) => updateTrip(index, {mode: value})}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder={t("transport.commutes.modePlaceholder")}/>
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {COMMUTE_MODES.map((mode) => (
+                                        <SelectItem key={mode} value={mode}>
+                                            {t(`options.commuteMode.${mode}`)}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-2">
+                                {t("transport.commutes.distance")}
+                            </label>
+                            <Input
+                                type="number"
+                                min="0"
+                                value={trip.distanceKm}
+                                onChange={(e) => updateTrip(index, {distanceKm: Number(e.target.value)})}
+                            />
+                            <FieldIssues issues={tripIssues(index, "distanceKm")}/>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium mb-2">
+                                {t("transport.commutes.tripsPerWeek")}
+                            </label>
+                            <Input
+                                type="number"
+                                min="0"
+                                value={trip.tripsPerWeek}
+                                onChange={(e) => updateTrip(index, {tripsPerWeek: Number(e.target.value)})}
+                            />
+                            <FieldIssues issues={tripIssues(index, "tripsPerWeek")}/>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-2">
+                                {t("transport.commutes.weeksPerYear")}
+                            </label>
+                            <Input
+                                type="number"
+                                min="0"
+                                max="52"
+                                value={trip.weeksPerYear}
+                                onChange={(e) => updateTrip(index, {weeksPerYear: Number(e.target.value)})}
+                            />
+                            <FieldIssues issues={tripIssues(index, "weeksPerYear")}/>
+                        </div>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                        <p className="text-sm text-gray-500">
+                            {t("units.kmPerYear", {value: formatNumber(commuteAnnualKm(trip))})}
+                        </p>
+                        <Button variant="outline" size="sm" onClick={() => removeTrip(index)}>
+                            {t("common.delete")}
+                        </Button>
+                    </div>
+                </div>
+            ))}
+
+            <div className="flex items-center justify-between">
+                <Button variant="outline" onClick={() => onChange([...trips, emptyTrip])}>
+                    {t("transport.commutes.add")}
+                </Button>
+                {trips.length > 0 && (
+                    <span className="text-sm font-medium text-gray-600">
+                        {t("transport.commutes.total", {value: formatNumber(totalKm)})}
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,22 @@
+// components/estimate-badge.tsx
+"use client";
+
+import {useI18n} from "@/components/i18n-provider";
+
+interface EstimateBadgeProps {
+    estimated: boolean;
+}
+
+export function EstimateBadge({estimated}: EstimateBadgeProps) {
+    const {t} = useI18n();
+
+    return (
+        <span
+            className={`inline-block text-xs px-2 py-1 rounded ${
+                estimated ? "bg-amber-100 text-amber-800" : "bg-gray-100 text-gray-700"
+            }`}
+        >
+            {t(estimated ? "quick.estimated" : "quick.provided")}
+        </span>
+    );
+}
@@ -0,0 +1,36 @@
+// components/field-issues.tsx
+"use client";
+
+import {useI18n} from "@/components/i18n-provider";
+import type {ValidationIssue} from "@/lib/validation";
+
+interface FieldIssuesProps {
+    issues: ValidationIssue[];
+}
+
+export function FieldIssues({issues}: FieldIssuesProps) {
+    const {t, formatNumber} = useI18n();
+
+    if (issues.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="mt-1 space-y-1">
+            {issues.map((issue) => {
+                const params = Object.fromEntries(
+                    Object.entries(issue.params ?? {}).map(([name, value]) => [name, formatNumber(value)])
+                );
+                return (
+                    <p
+                        key={`${issue.path}-${issue.code}`}
+                        role={issue.severity === "error" ? "alert" : undefined}
+                        className={`text-sm ${issue.severity === "error" ? "text-red-600" : "text-amber-600"}`}
+                    >
+                        {t(`validation.${issue.code}`, params)}
+                    </p>
+                );
+            })}
+        </div>
+    );
+}
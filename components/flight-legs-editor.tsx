@@ -0,0 +1,140 @@
+// components/flight-legs-editor.tsx
+"use client";
+
+import {Input} from "@/components/ui/input";
+import {Button} from "@/components/ui/button";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {FieldIssues} from "@/components/field-issues";
+import {useI18n} from "@/components/i18n-provider";
+import {distanceBetweenAirports} from "@/lib/airports";
+import {calculateFlightLegEmissions} from "@/lib/emissions";
+import {CABIN_CLASSES} from "@/lib/options";
+import type {FlightLeg} from "@/lib/types";
+import type {ValidationIssue} from "@/lib/validation";
+
+interface FlightLegsEditorProps {
+    legs: FlightLeg[];
+    radiativeForcing: boolean;
+    issues?: ValidationIssue[];
+    onChange: (legs: FlightLeg[]) => void;
+}
+
+const emptyLeg: FlightLeg = {
+    origin: "",
+    destination: "",
+    cabinClass: "economy",
+    returnTrip: true,
+};
+
+export function FlightLegsEditor({legs, radiativeForcing, issues = [], onChange}: FlightLegsEditorProps) {
+    const {t, formatNumber} = useI18n();
+
+    const legIssues = (index: number, field: keyof FlightLeg) =>
+        issues.filter((issue) => issue.path === `transport.flightLegs.${index}.${field}`);
+
+    const updateLeg = (index: number, changes: Partial<FlightLeg>) =>
+        onChange(legs.map((leg, legIndex) => (legIndex === index ? {...leg, ...changes} : leg)));
+
+    const removeLeg = (index: number) =>
+        onChange(legs.filter((_, legIndex) => legIndex !== index));
+
+    return (
+        <div className="space-y-4">
+            {legs.map((leg, index) => {
+                const distance = distanceBetweenAirports(leg.origin, leg.destination);
+                const complete = leg.origin.length === 3 && leg.destination.length === 3;
+
+                return (
+                    <div key={index} className="p-4 bg-gray-50 rounded-lg space-y-3">
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-sm font-medium mb-2">
+                                    {t("transport.flights.origin")}
+                                </label>
+                                <Input
+                                    maxLength={3}
+                                    placeholder="CDG"
+                                    value={leg.origin}
+                                    onChange={(e) => updateLeg(index, {origin: e.target.value.toUpperCase()})}
+                                />
+                                <FieldIssues issues={legIssues(index, "origin")}/>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium mb-2">
+                                    {t("transport.flights.destination")}
+                                </label>
+                                <Input
+                                    maxLength={3}
+                                    placeholder="JFK"
+                                    value={leg.destination}
+                                    onChange={(e) => updateLeg(index, {destination: e.target.value.toUpperCase()})}
+                                />
+                                <FieldIssues issues={legIssues(index, "destination")}/>
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-3 items-end">
+                            <div>
+                                <label className="block text-sm font-medium mb-2">
+                                    {t("transport.flights.cabinClass")}
+                                </label>
+                                <Select
+                                    value={leg.cabinClass}
+                                    onValueChange={(value) => updateLeg(index, {cabinClass: value})}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue placeholder={t("transport.flights.cabinClassPlaceholder")}/>
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {CABIN_CLASSES.map((cabinClass) => (
+                                            <SelectItem key={cabinClass} value={cabinClass}>
+                                                {t(`options.cabinClass.${cabinClass}`)}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="flex items-center space-x-2 h-9">
+                                <input
+                                    type="checkbox"
+                                    checked={leg.returnTrip}
+                                    onChange={(e) => updateLeg(index, {returnTrip: e.target.checked})}
+                                    className="form-checkbox"
+                                />
+                                <label className="text-sm font-medium">
+                                    {t("transport.flights.returnTrip")}
+                                </label>
+                            </div>
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                            <p className="text-sm text-gray-500">
+                                {distance !== undefined
+                                    ? t("transport.flights.legSummary", {
+                                        distance: formatNumber(distance),
+                                        emissions: formatNumber(calculateFlightLegEmissions(leg, radiativeForcing)),
+                                    })
+                                    : complete
+                                        ? t("transport.flights.unknownAirport")
+                                        : t("transport.flights.missingAirports")}
+                            </p>
+                            <Button variant="outline" size="sm" onClick={() => removeLeg(index)}>
+                                {t("common.delete")}
+                            </Button>
+                        </div>
+                    </div>
+                );
+            })}
+
+            <Button variant="outline" onClick={() => onChange([...legs, emptyLeg])}>
+                {t("transport.flights.add")}
+            </Button>
+        </div>
+    );
+}
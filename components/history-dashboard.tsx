@@ -0,0 +1,98 @@
+// components/history-dashboard.tsx
+"use client";
+
+import {Card} from "@/components/ui/card";
+import {Button} from "@/components/ui/button";
+import {useI18n} from "@/components/i18n-provider";
+import {TrendChart} from "@/components/trend-chart";
+import type {SavedCalculation} from "@/lib/storage";
+import {buildTrend, deltaFromPrevious, TARGET_2050_PER_PERSON, TREND_SERIES} from "@/lib/trends";
+
+interface HistoryDashboardProps {
+    history: SavedCalculation[];
+    onClose: () => void;
+}
+
+export function HistoryDashboard({history, onClose}: HistoryDashboardProps) {
+    const {t, formatDate, formatNumber, formatTonnes} = useI18n();
+    const formatDelta = (delta: number) =>
+        t("units.tonnesShort", {value: `${delta > 0 ? "+" : ""}${formatTonnes(delta)}`});
+    const trend = buildTrend(history);
+    const latest = trend[trend.length - 1];
+    const latestDelta = deltaFromPrevious(trend, trend.length - 1);
+
+    return (
+        <Card className="p-6">
+            <div className="flex items-center justify-between mb-6">
+                <h2 className="text-2xl font-semibold">{t("trends.title")}</h2>
+                <Button variant="outline" onClick={onClose}>
+                    {t("common.back")}
+                </Button>
+            </div>
+
+            {latest && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
+                    <div className="p-4 bg-gray-50 rounded-lg">
+                        <h3 className="font-semibold mb-2">{t("trends.latest")}</h3>
+                        <div className="text-2xl font-bold text-green-600">
+                            {t("units.tonnes", {value: formatTonnes(latest.total)})}
+                        </div>
+                        {latestDelta && (
+                            <div className={latestDelta.total > 0 ? "text-red-600" : "text-green-600"}>
+                                {t("trends.deltaFromPrevious", {value: formatDelta(latestDelta.total)})}
+                            </div>
+                        )}
+                    </div>
+                    <div className="p-4 bg-gray-50 rounded-lg">
+                        <h3 className="font-semibold mb-2">{t("trends.gapToTarget")}</h3>
+                        <div className="text-2xl font-bold text-gray-800">
+                            {t("units.tonnes", {value: formatTonnes(Math.max(latest.total - TARGET_2050_PER_PERSON, 0))})}
+                        </div>
+                        <div className="text-gray-600">
+                            {t("trends.target", {value: formatNumber(TARGET_2050_PER_PERSON)})}
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            <TrendChart trend={trend}/>
+
+            <div className="mt-8 overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                    <tr className="text-left text-gray-600">
+                        <th className="py-2">{t("trends.date")}</th>
+                        {TREND_SERIES.map((series) => (
+                            <th key={series} className="py-2">{t(`sectors.${series}`)}</th>
+                        ))}
+                    </tr>
+                    </thead>
+                    <tbody>
+                    {trend.map((point, index) => {
+                        const delta = deltaFromPrevious(trend, index);
+                        return (
+                            <tr key={point.id} className="border-t">
+                                <td className="py-2">
+                                    {formatDate(point.date)}
+                                </td>
+                                {TREND_SERIES.map((series) => (
+                                    <td key={series} className="py-2">
+                                        <div className="font-medium">
+                                            {t("units.tonnesShort", {value: formatTonnes(point[series])})}
+                                        </div>
+                                        {delta && (
+                                            <div className={delta[series] > 0 ? "text-red-600" : "text-green-600"}>
+                                                {formatDelta(delta[series])}
+                                            </div>
+                                        )}
+                                    </td>
+                                ))}
+                            </tr>
+                        );
+                    })}
+                    </tbody>
+                </table>
+            </div>
+        </Card>
+    );
+}
@@ -0,0 +1,213 @@
+// components/household-calculator.tsx
+"use client";
+
+import {useEffect, useState} from "react";
+import Link from "next/link";
+import {motion, AnimatePresence} from "framer-motion";
+import {Card} from "@/components/ui/card";
+import {Button} from "@/components/ui/button";
+import {Progress} from "@/components/ui/progress";
+import {HouseholdCars} from "@/components/household-cars";
+import {HouseholdMembers} from "@/components/household-members";
+import {HouseholdResult} from "@/components/household-result";
+import {useI18n} from "@/components/i18n-provider";
+import {LocaleSwitcher} from "@/components/locale-switcher";
+import {WizardStep} from "@/components/wizard-step";
+import {
+    applyMemberFormData,
+    calculateHouseholdFootprint,
+    createHousehold,
+    householdPageIssues,
+    householdPages,
+    memberFormData,
+    memberLabel,
+    type HouseholdPage,
+} from "@/lib/household";
+import {clearHouseholdState, loadHouseholdState, saveHouseholdState} from "@/lib/storage";
+import type {HouseholdData, HouseholdFootprintResult} from "@/lib/types";
+import {hasErrors, type ValidationIssue} from "@/lib/validation";
+
+export function HouseholdCalculator() {
+    const {t} = useI18n();
+    const [household, setHousehold] = useState<HouseholdData>(createHousehold);
+    const [pageIndex, setPageIndex] = useState(0);
+    const [result, setResult] = useState<HouseholdFootprintResult | null>(null);
+    const [hydrated, setHydrated] = useState(false);
+    const [showErrors, setShowErrors] = useState(false);
+
+    // Restauration du questionnaire du foyer en cours
+    useEffect(() => {
+        const savedState = loadHouseholdState();
+        if (savedState) {
+            setHousehold(savedState.household);
+            setPageIndex(savedState.page);
+        }
+        setHydrated(true);
+    }, []);
+
+    useEffect(() => {
+        if (hydrated && !result) {
+            saveHouseholdState({household, page: pageIndex});
+        }
+    }, [hydrated, result, household, pageIndex]);
+
+    // Les pages dépendent des réponses (membres ajoutés, sous-étapes masquées)
+    const pages = householdPages(household);
+    const currentIndex = Math.min(pageIndex, pages.length - 1);
+    const page = pages[currentIndex];
+    const isLastPage = currentIndex === pages.length - 1;
+    const issues = householdPageIssues(household, page);
+    const visibleIssues = (pageIssues: ValidationIssue[]) =>
+        pageIssues.filter((issue) => showErrors || issue.severity === "warning");
+
+    const goTo = (index: number) => {
+        setShowErrors(false);
+        setPageIndex(index);
+    };
+
+    const handleNext = () => {
+        if (hasErrors(issues)) {
+            setShowErrors(true);
+            return;
+        }
+        if (!isLastPage) {
+            goTo(currentIndex + 1);
+            return;
+        }
+        // Réponses modifiées entre-temps sur une autre page
+        const invalid = pages.findIndex((target) => hasErrors(householdPageIssues(household, target)));
+        if (invalid !== -1) {
+            setPageIndex(invalid);
+            setShowErrors(true);
+            return;
+        }
+        setResult(calculateHouseholdFootprint(household));
+        clearHouseholdState();
+    };
+
+    const restart = () => {
+        setHousehold(createHousehold());
+        setPageIndex(0);
+        setShowErrors(false);
+        setResult(null);
+    };
+
+    const renderPage = (current: HouseholdPage) => {
+        switch (current.kind) {
+            case "members":
+                return (
+                    <HouseholdMembers
+                        members={household.members}
+                        onChange={(members) => setHousehold({...household, members})}
+                    />
+                );
+            case "cars":
+                return (
+                    <HouseholdCars
+                        cars={household.cars}
+                        members={household.members}
+                        issues={visibleIssues(issues)}
+                        onChange={(cars) => setHousehold({...household, cars})}
+                    />
+                );
+            case "shared":
+                return (
+                    <WizardStep
+                        subStep={current.subStep}
+                        formData={memberFormData(household, 0)}
+                        issues={visibleIssues(issues)}
+                        onChange={(formData) => setHousehold(applyMemberFormData(household, 0, formData))}
+                    />
+                );
+            case "member":
+                return (
+                    <>
+                        <p className="text-sm font-medium text-green-700 mb-4">
+                            {t("household.memberHeading", {
+                                name: memberLabel(household.members[current.memberIndex], current.memberIndex, t),
+                            })}
+                        </p>
+                        <WizardStep
+                            subStep={current.subStep}
+                            formData={memberFormData(household, current.memberIndex)}
+                            issues={visibleIssues(issues)}
+                            onChange={(formData) =>
+                                setHousehold(applyMemberFormData(household, current.memberIndex, formData))
+                            }
+                        />
+                    </>
+                );
+        }
+    };
+
+    const percentage = ((currentIndex + 1) / pages.length) * 100;
+
+    return (
+        <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 p-8">
+            <motion.div
+                initial={{opacity: 0, y: 20}}
+                animate={{opacity: 1, y: 0}}
+                className="max-w-4xl mx-auto"
+            >
+                <div className="flex justify-between items-center mb-4">
+                    <Button asChild variant="link" size="sm">
+                        <Link href="/">{t("household.openSingle")}</Link>
+                    </Button>
+                    <LocaleSwitcher/>
+                </div>
+                <h1 className="text-4xl font-bold text-center mb-8 text-gray-800">
+                    {t("household.title")}
+                </h1>
+
+                {result ? (
+                    <Card className="p-6">
+                        <h2 className="text-2xl font-semibold mb-6">{t("household.results.title")}</h2>
+                        <HouseholdResult result={result}/>
+                        <Button className="w-full mt-2" onClick={restart}>
+                            {t("results.restart")}
+                        </Button>
+                    </Card>
+                ) : (
+                    <Card className="p-6 shadow-lg">
+                        <div className="mb-6">
+                            <div className="flex items-center justify-between mb-2">
+                                <span className="text-sm font-medium text-gray-600">
+                                    {t("household.progress", {page: currentIndex + 1, total: pages.length})}
+                                </span>
+                                <span className="text-sm font-medium text-gray-600">
+                                    {Math.round(percentage)}%
+                                </span>
+                            </div>
+                            <Progress value={percentage} className="h-2"/>
+                        </div>
+
+                        <AnimatePresence mode="wait">
+                            <div key={currentIndex}>
+                                {renderPage(page)}
+                            </div>
+                        </AnimatePresence>
+
+                        {showErrors && hasErrors(issues) && (
+                            <p className="text-sm text-red-600 mt-6" role="alert">
+                                {t("validation.blocked")}
+                            </p>
+                        )}
+
+                        <div className="flex justify-between mt-8">
+                            <Button
+                                variant="outline"
+                                onClick={() => goTo(currentIndex - 1)}
+                                disabled={currentIndex === 0}
+                            >
+                                {t("common.back")}
+                            </Button>
+                            <Button onClick={handleNext}>
+                                {isLastPage ? t("common.calculate") : t("common.next")}
+                            </Button>
+                        </div>
+                    </Card>
+                )}
+            </motion.div>
+        </div>
+    );
+}
@@ -0,0 +1,143 @@
+// components/household-cars.tsx
+"use client";
+
+import {Input} from "@/components/ui/input";
+import {Button} from "@/components/ui/button";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {FieldIssues} from "@/components/field-issues";
+import {useI18n} from "@/components/i18n-provider";
+import {carUsageShares, createCar, memberLabel} from "@/lib/household";
+import {CAR_TYPES} from "@/lib/options";
+import type {HouseholdCar, HouseholdMember} from "@/lib/types";
+import type {ValidationIssue} from "@/lib/validation";
+
+interface HouseholdCarsProps {
+    cars: HouseholdCar[];
+    members: HouseholdMember[];
+    issues?: ValidationIssue[];
+    onChange: (cars: HouseholdCar[]) => void;
+}
+
+// "Pas de voiture" revient à ne rien ajouter à la liste
+const HOUSEHOLD_CAR_TYPES = CAR_TYPES.filter((carType) => carType !== "none");
+
+export function HouseholdCars({cars, members, issues = [], onChange}: HouseholdCarsProps) {
+    const {t, formatNumber} = useI18n();
+
+    const carIssues = (index: number, field: keyof HouseholdCar) =>
+        issues.filter((issue) => issue.path === `cars.${index}.${field}`);
+
+    const updateCar = (index: number, changes: Partial<HouseholdCar>) =>
+        onChange(cars.map((car, carIndex) => (carIndex === index ? {...car, ...changes} : car)));
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h3 className="text-xl font-semibold">{t("household.cars.title")}</h3>
+                <p className="text-sm text-gray-500 mt-1">{t("household.cars.hint")}</p>
+            </div>
+
+            {cars.length === 0 && (
+                <p className="text-sm text-gray-600">{t("household.cars.none")}</p>
+            )}
+
+            {cars.map((car, index) => {
+                const shares = carUsageShares(car, members);
+                return (
+                    <div key={car.id} className="p-4 bg-gray-50 rounded-lg space-y-3">
+                        <div>
+                            <label className="block text-sm font-medium mb-2">
+                                {t("household.cars.type")}
+                            </label>
+                            <Select
+                                value={car.carType}
+                                onValueChange={(value) => updateCar(index, {carType: value})}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder={t("transport.car.typePlaceholder")}/>
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {HOUSEHOLD_CAR_TYPES.map((carType) => (
+                                        <SelectItem key={carType} value={carType}>
+                                            {t(`options.carType.${carType}`)}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <FieldIssues issues={carIssues(index, "carType")}/>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-sm font-medium mb-2">
+                                    {t("transport.car.age")}
+                                </label>
+                                <Input
+                                    type="number"
+                                    min="0"
+                                    value={car.carAge}
+                                    onChange={(e) => updateCar(index, {carAge: Number(e.target.value)})}
+                                />
+                                <FieldIssues issues={carIssues(index, "carAge")}/>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium mb-2">
+                                    {t("transport.kmPerYear")}
+                                </label>
+                                <Input
+                                    type="number"
+                                    min="0"
+                                    value={car.carKm}
+                                    onChange={(e) => updateCar(index, {carKm: Number(e.target.value)})}
+                                />
+                                <FieldIssues issues={carIssues(index, "carKm")}/>
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <p className="text-sm font-medium">{t("household.cars.usageTitle")}</p>
+                            {members.map((member, memberIndex) => (
+                                <div key={member.id} className="grid grid-cols-3 gap-3 items-center">
+                                    <span className="text-sm">{memberLabel(member, memberIndex, t)}</span>
+                                    <Input
+                                        type="number"
+                                        min="0"
+                                        value={car.usage[member.id] ?? 0}
+                                        aria-label={t("household.cars.usage", {name: memberLabel(member, memberIndex, t)})}
+                                        onChange={(e) => updateCar(index, {
+                                            usage: {...car.usage, [member.id]: Number(e.target.value)},
+                                        })}
+                                    />
+                                    <span className="text-sm text-gray-500 text-right">
+                                        {t("household.cars.share", {value: formatNumber(shares[memberIndex] * 100)})}
+                                    </span>
+                                </div>
+                            ))}
+                            <p className="text-xs text-gray-500">{t("household.cars.usageHint")}</p>
+                        </div>
+
+                        <div className="flex justify-end">
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => onChange(cars.filter((_, carIndex) => carIndex !== index))}
+                            >
+                                {t("common.delete")}
+                            </Button>
+                        </div>
+                    </div>
+                );
+            })}
+
+            <Button variant="outline" onClick={() => onChange([...cars, createCar()])}>
+                {t("household.cars.add")}
+            </Button>
+        </div>
+    );
+}
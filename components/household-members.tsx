@@ -0,0 +1,57 @@
+// components/household-members.tsx
+"use client";
+
+import {Input} from "@/components/ui/input";
+import {Button} from "@/components/ui/button";
+import {useI18n} from "@/components/i18n-provider";
+import {createMember} from "@/lib/household";
+import type {HouseholdMember} from "@/lib/types";
+
+interface HouseholdMembersProps {
+    members: HouseholdMember[];
+    onChange: (members: HouseholdMember[]) => void;
+}
+
+export function HouseholdMembers({members, onChange}: HouseholdMembersProps) {
+    const {t} = useI18n();
+
+    const renameMember = (index: number, name: string) =>
+        onChange(members.map((member, memberIndex) => (memberIndex === index ? {...member, name} : member)));
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h3 className="text-xl font-semibold">{t("household.members.title")}</h3>
+                <p className="text-sm text-gray-500 mt-1">{t("household.members.hint")}</p>
+            </div>
+            <div className="space-y-3">
+                {members.map((member, index) => (
+                    <div key={member.id} className="flex items-center gap-2">
+                        <Input
+                            value={member.name}
+                            placeholder={t("household.memberFallback", {number: index + 1})}
+                            aria-label={t("household.members.name", {number: index + 1})}
+                            onChange={(e) => renameMember(index, e.target.value)}
+                        />
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={members.length === 1}
+                            onClick={() => onChange(members.filter((_, memberIndex) => memberIndex !== index))}
+                        >
+                            {t("common.delete")}
+                        </Button>
+                    </div>
+                ))}
+            </div>
+            <div className="flex items-center justify-between">
+                <Button variant="outline" onClick={() => onChange([...members, createMember()])}>
+                    {t("household.members.add")}
+                </Button>
+                <span className="text-sm font-medium text-gray-600">
+                    {t("household.members.count", {count: members.length})}
+                </span>
+            </div>
+        </div>
+    );
+}
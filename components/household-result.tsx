@@ -0,0 +1,122 @@
+// components/household-result.tsx
+"use client";
+
+import {useI18n} from "@/components/i18n-provider";
+import {memberLabel} from "@/lib/household";
+import type {HouseholdFootprintResult} from "@/lib/types";
+
+interface HouseholdResultProps {
+    result: HouseholdFootprintResult;
+}
+
+const SECTORS = ["transport", "energy", "lifestyle"] as const;
+
+const SECTOR_COLORS: Record<(typeof SECTORS)[number], string> = {
+    transport: "text-blue-600",
+    energy: "text-orange-600",
+    lifestyle: "text-purple-600",
+};
+
+export function HouseholdResult({result}: HouseholdResultProps) {
+    const {t, formatNumber, formatTonnes, formatCountry} = useI18n();
+    const average = result.total / Math.max(result.members.length, 1);
+
+    return (
+        <>
+            <div className="text-center mb-8">
+                <div className="text-5xl font-bold text-green-600 mb-2">
+                    {t("units.tonnesPerYear", {value: formatTonnes(result.total)})}
+                </div>
+                <div className="text-gray-600">
+                    {t("household.results.average", {
+                        value: formatTonnes(average),
+                        count: result.members.length,
+                    })}
+                </div>
+                <div className="text-gray-600 mt-2">
+                    {t(result.comparison.percentageFromNational > 0
+                        ? "results.aboveNational"
+                        : "results.belowNational", {
+                        percent: formatNumber(Math.abs(result.comparison.percentageFromNational), 1),
+                        country: formatCountry(result.country),
+                        average: t("units.tonnes", {value: formatNumber(result.comparison.nationalAverage, 1)}),
+                    })}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+                {SECTORS.map((sector) => (
+                    <div key={sector} className="p-4 bg-gray-50 rounded-lg">
+                        <h3 className="font-semibold mb-2">{t(`sectors.${sector}`)}</h3>
+                        <div className={`text-2xl font-bold ${SECTOR_COLORS[sector]}`}>
+                            {t("units.tonnes", {value: formatTonnes(result.breakdown[sector])})}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="mb-6">
+                <h3 className="text-xl font-semibold mb-3">{t("household.results.membersTitle")}</h3>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="border-b text-left text-gray-600">
+                                <th className="py-2 pr-4 font-medium">{t("household.results.member")}</th>
+                                {SECTORS.map((sector) => (
+                                    <th key={sector} className="py-2 pr-4 font-medium text-right">{t(`sectors.${sector}`)}</th>
+                                ))}
+                                <th className="py-2 pr-4 font-medium text-right">{t("sectors.total")}</th>
+                                <th className="py-2 font-medium text-right">{t("household.results.share")}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {result.members.map((member, index) => (
+                                <tr key={member.id} className="border-b">
+                                    <td className="py-2 pr-4 font-medium">{memberLabel(member, index, t)}</td>
+                                    {SECTORS.map((sector) => (
+                                        <td key={sector} className="py-2 pr-4 text-right">
+                                            {t("units.tonnesShort", {value: formatTonnes(member.breakdown[sector])})}
+                                            {sector === "transport" && member.carShare > 0 && (
+                                                <span className="block text-xs text-gray-500">
+                                                    {t("household.results.carShare", {value: formatTonnes(member.carShare)})}
+                                                </span>
+                                            )}
+                                        </td>
+                                    ))}
+                                    <td className="py-2 pr-4 text-right font-semibold">
+                                        {t("units.tonnesShort", {value: formatTonnes(member.total)})}
+                                    </td>
+                                    <td className="py-2 text-right">
+                                        {t("units.percent", {
+                                            value: formatNumber(result.total > 0 ? (member.total / result.total) * 100 : 0),
+                                        })}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">{t("household.results.allocation")}</p>
+            </div>
+
+            <div className="mb-6">
+                <h3 className="text-xl font-semibold mb-3">{t("results.comparisonTitle")}</h3>
+                <div className="flex justify-between items-center">
+                    <span>{t("household.results.vsWorld")}</span>
+                    <span
+                        className={`font-semibold ${
+                            result.comparison.percentageFromWorld > 0 ? "text-red-600" : "text-green-600"
+                        }`}
+                    >
+                        {result.comparison.percentageFromWorld > 0 ? "+" : ""}
+                        {t("units.percent", {value: formatNumber(result.comparison.percentageFromWorld, 1)})}
+                    </span>
+                </div>
+            </div>
+
+            <p className="text-xs text-gray-500 mb-6">
+                {t("results.factorDataset", {...result.factorDataset})}
+            </p>
+        </>
+    );
+}
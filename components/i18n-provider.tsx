@@ -0,0 +1,67 @@
+// components/i18n-provider.tsx
+"use client";
+
+import {createContext, useContext, useEffect, useState, type ReactNode} from "react";
+import {findCountryProfile} from "@/lib/countries";
+import {
+    DEFAULT_LOCALE,
+    formatCountryName,
+    formatDate,
+    formatNumber,
+    isLocale,
+    translate,
+    type Locale,
+    type TranslationParams,
+} from "@/lib/i18n";
+import {loadLocale, saveLocale} from "@/lib/storage";
+
+interface I18nContextValue {
+    locale: Locale;
+    setLocale: (locale: Locale) => void;
+    t: (key: string, params?: TranslationParams) => string;
+    formatNumber: (value: number, fractionDigits?: number) => string;
+    formatTonnes: (value: number) => string;
+    formatDate: (date: string | Date, options?: Intl.DateTimeFormatOptions) => string;
+    formatCountry: (code: string) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export function I18nProvider({children}: { children: ReactNode }) {
+    const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+    // Langue enregistrée, sinon celle du navigateur si elle est disponible
+    useEffect(() => {
+        const browserLocale = navigator.language.slice(0, 2);
+        setLocaleState(loadLocale() ?? (isLocale(browserLocale) ? browserLocale : DEFAULT_LOCALE));
+    }, []);
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
+
+    const setLocale = (updatedLocale: Locale) => {
+        saveLocale(updatedLocale);
+        setLocaleState(updatedLocale);
+    };
+
+    const value: I18nContextValue = {
+        locale,
+        setLocale,
+        t: (key, params) => translate(locale, key, params),
+        formatNumber: (number, fractionDigits) => formatNumber(locale, number, fractionDigits),
+        formatTonnes: (tonnes) => formatNumber(locale, tonnes, 2),
+        formatDate: (date, options) => formatDate(locale, date, options),
+        formatCountry: (code) => formatCountryName(locale, code, findCountryProfile(code)?.name ?? code),
+    };
+
+    return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export const useI18n = () => {
+    const context = useContext(I18nContext);
+    if (!context) {
+        throw new Error("useI18n must be used within an I18nProvider");
+    }
+    return context;
+};
@@ -0,0 +1,38 @@
+// components/locale-switcher.tsx
+"use client";
+
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {useI18n} from "@/components/i18n-provider";
+import {isLocale, LOCALE_NAMES, LOCALES} from "@/lib/i18n";
+
+export function LocaleSwitcher() {
+    const {locale, setLocale, t} = useI18n();
+
+    return (
+        <Select
+            value={locale}
+            onValueChange={(value) => {
+                if (isLocale(value)) {
+                    setLocale(value);
+                }
+            }}
+        >
+            <SelectTrigger className="w-36" aria-label={t("app.language")}>
+                <SelectValue/>
+            </SelectTrigger>
+            <SelectContent>
+                {LOCALES.map((option) => (
+                    <SelectItem key={option} value={option} lang={option}>
+                        {LOCALE_NAMES[option]}
+                    </SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    );
+}
@@ -0,0 +1,135 @@
+// components/printable-report.tsx
+"use client";
+
+import {useI18n} from "@/components/i18n-provider";
+import type {FootprintReport} from "@/lib/report";
+import {
+    getFormValue,
+    getSubStep,
+    isFieldVisible,
+    visiblePositions,
+    type Text,
+    type TextContext,
+    type WizardField,
+} from "@/lib/wizard";
+
+interface PrintableReportProps {
+    report: FootprintReport;
+}
+
+// Mise en page du rapport imprimé (ou enregistré en PDF), masquée à l'écran
+export function PrintableReport({report}: PrintableReportProps) {
+    const {t, formatNumber, formatTonnes, formatDate, formatCountry} = useI18n();
+    const {formData, result} = report;
+    const context: TextContext = {formData, t, formatNumber, formatCountry};
+    const text = (value: Text) => (typeof value === "function" ? value(context) : t(value));
+
+    const formatAnswer = (field: WizardField) => {
+        const value = getFormValue(formData, field.path);
+        switch (field.type) {
+            case "select":
+                return value === undefined || value === "" ? "-" : field.optionLabel(value as string | number, context);
+            case "checkbox":
+                return t(value ? "report.yes" : "report.no");
+            case "slider":
+                return t(field.valueLabel, {value: Number(value ?? 0)});
+            case "commutes":
+            case "flightLegs":
+                return t("report.listItems", {count: Array.isArray(value) ? value.length : 0});
+            default:
+                return typeof value === "number" ? formatNumber(value, 2) : String(value ?? "-");
+        }
+    };
+
+    const answeredSubSteps = visiblePositions(formData).flatMap((position) => {
+        const subStep = getSubStep(position);
+        return subStep
+            ? [{
+                key: `${position.step}-${position.subStep}`,
+                subStep,
+                fields: subStep.fields.filter((field) => field.type !== "note" && isFieldVisible(field, formData)),
+            }]
+            : [];
+    });
+
+    return (
+        <div className="hidden print:block text-sm text-black">
+            <h1 className="text-2xl font-bold mb-1">{t("report.printTitle")}</h1>
+            <p className="mb-6">
+                {t("report.generatedOn", {date: formatDate(report.generatedAt, {day: "numeric", month: "long", year: "numeric"})})}
+                {" · "}
+                {t("results.factorDataset", {...result.factorDataset})}
+            </p>
+
+            <h2 className="text-lg font-semibold mb-2">{t("results.title")}</h2>
+            <table className="w-full mb-6">
+                <tbody>
+                    <tr className="border-b font-semibold">
+                        <td className="py-1">{t("sectors.total")}</td>
+                        <td className="py-1 text-right">{t("units.tonnesPerYear", {value: formatTonnes(result.total)})}</td>
+                    </tr>
+                    {(["transport", "energy", "lifestyle"] as const).map((sector) => (
+                        <tr key={sector} className="border-b">
+                            <td className="py-1">{t(`sectors.${sector}`)}</td>
+                            <td className="py-1 text-right">{t("units.tonnes", {value: formatTonnes(result.breakdown[sector])})}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            <h2 className="text-lg font-semibold mb-2">{t("results.comparisonTitle")}</h2>
+            <ul className="mb-6 space-y-1">
+                <li>
+                    {t(result.comparison.percentageFromNational > 0 ? "results.aboveNational" : "results.belowNational", {
+                        percent: formatNumber(Math.abs(result.comparison.percentageFromNational), 1),
+                        country: formatCountry(result.country),
+                        average: t("units.tonnes", {value: formatNumber(result.comparison.nationalAverage, 1)}),
+                    })}
+                </li>
+                <li>
+                    {t("report.worldComparison", {
+                        average: formatNumber(result.comparison.worldAverage, 1),
+                        difference: `${result.comparison.percentageFromWorld > 0 ? "+" : ""}${formatNumber(result.comparison.percentageFromWorld, 1)}`,
+                    })}
+                </li>
+            </ul>
+
+            <h2 className="text-lg font-semibold mb-2">{t("report.inputsTitle")}</h2>
+            {answeredSubSteps.map(({key, subStep, fields}) => (
+                <div key={key} className="mb-3 break-inside-avoid">
+                    <h3 className="font-semibold">{text(subStep.title)}</h3>
+                    <table className="w-full">
+                        <tbody>
+                            {fields.map((field) => (
+                                <tr key={field.path} className="border-b">
+                                    <td className="py-1 pr-4">{field.label ? text(field.label) : text(subStep.title)}</td>
+                                    <td className="py-1 text-right">
+                                        {formatAnswer(field)}
+                                        {report.estimatedPaths.includes(field.path) && ` (${t("quick.estimated")})`}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            ))}
+
+            <h2 className="text-lg font-semibold mt-6 mb-2">{t("results.recommendationsTitle")}</h2>
+            <table className="w-full">
+                <tbody>
+                    {report.recommendations.map((action) => (
+                        <tr key={action.id} className="border-b break-inside-avoid">
+                            <td className="py-1 pr-4">
+                                <span className="font-medium">{action.title}</span>
+                                <span className="block text-gray-600">{action.description}</span>
+                            </td>
+                            <td className="py-1 text-right whitespace-nowrap">
+                                {t("results.savings", {value: formatTonnes(action.savings)})}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
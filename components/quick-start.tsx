@@ -0,0 +1,45 @@
+// components/quick-start.tsx
+"use client";
+
+import {motion} from "framer-motion";
+import {Button} from "@/components/ui/button";
+import {useI18n} from "@/components/i18n-provider";
+import {DEFAULT_PROFILES} from "@/lib/quick-estimate";
+
+interface QuickStartProps {
+    onStart: (profileId: string) => void;
+    onCancel: () => void;
+}
+
+export function QuickStart({onStart, onCancel}: QuickStartProps) {
+    const {t} = useI18n();
+
+    return (
+        <motion.div
+            initial={{opacity: 0, x: -20}}
+            animate={{opacity: 1, x: 0}}
+            className="space-y-6"
+        >
+            <div>
+                <h3 className="text-xl font-semibold">{t("quick.profile.title")}</h3>
+                <p className="text-sm text-gray-500 mt-1">{t("quick.profile.hint")}</p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {DEFAULT_PROFILES.map((profile) => (
+                    <button
+                        key={profile.id}
+                        type="button"
+                        onClick={() => onStart(profile.id)}
+                        className="p-4 text-left bg-gray-50 rounded-lg border border-transparent hover:border-green-600 transition-colors"
+                    >
+                        <span className="font-medium block">{t(`quick.profiles.${profile.id}.title`)}</span>
+                        <span className="text-sm text-gray-600">{t(`quick.profiles.${profile.id}.description`)}</span>
+                    </button>
+                ))}
+            </div>
+            <Button variant="outline" onClick={onCancel}>
+                {t("common.back")}
+            </Button>
+        </motion.div>
+    );
+}
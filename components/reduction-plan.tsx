@@ -0,0 +1,186 @@
+// components/reduction-plan.tsx
+"use client";
+
+import {useEffect, useState} from "react";
+import {Input} from "@/components/ui/input";
+import {Button} from "@/components/ui/button";
+import {Progress} from "@/components/ui/progress";
+import {useI18n} from "@/components/i18n-provider";
+import {TrendChart} from "@/components/trend-chart";
+import {
+    completedItemIds,
+    createPlan,
+    itemsByDate,
+    planProgress,
+    projectPlan,
+    recordCheckIn,
+    type ReductionPlan as Plan,
+} from "@/lib/plan";
+import {clearPlan, loadPlan, savePlan} from "@/lib/storage";
+import type {CarbonFootprintResult, FormData, RecommendationAction} from "@/lib/types";
+
+interface ReductionPlanProps {
+    formData: FormData;
+    result: CarbonFootprintResult;
+    recommendations: RecommendationAction[];
+}
+
+const defaultTargetDate = () => {
+    const date = new Date();
+    date.setMonth(date.getMonth() + 6);
+    return date.toISOString().slice(0, 10);
+};
+
+export function ReductionPlan({formData, result, recommendations}: ReductionPlanProps) {
+    const {t, formatDate, formatTonnes} = useI18n();
+    const [plan, setPlan] = useState<Plan | null>(null);
+    const [selections, setSelections] = useState<Record<string, string>>({});
+    const [completedDraft, setCompletedDraft] = useState<string[]>([]);
+
+    useEffect(() => {
+        const savedPlan = loadPlan();
+        setPlan(savedPlan);
+        setCompletedDraft(savedPlan ? completedItemIds(savedPlan) : []);
+    }, []);
+
+    const updatePlan = (updatedPlan: Plan | null) => {
+        if (updatedPlan) {
+            savePlan(updatedPlan);
+        } else {
+            clearPlan();
+        }
+        setPlan(updatedPlan);
+        setCompletedDraft(updatedPlan ? completedItemIds(updatedPlan) : []);
+    };
+
+    if (!plan) {
+        const selectedActions = recommendations.filter((action) => selections[action.id]);
+
+        return (
+            <div className="space-y-4">
+                <h3 className="text-xl font-semibold">{t("plan.buildTitle")}</h3>
+                <p className="text-sm text-gray-600">
+                    {t("plan.buildIntro")}
+                </p>
+                {recommendations.map((action) => (
+                    <div key={action.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                        <div className="flex items-center space-x-2">
+                            <input
+                                type="checkbox"
+                                checked={Boolean(selections[action.id])}
+                                onChange={(e) => {
+                                    const updated = {...selections};
+                                    if (e.target.checked) {
+                                        updated[action.id] = defaultTargetDate();
+                                    } else {
+                                        delete updated[action.id];
+                                    }
+                                    setSelections(updated);
+                                }}
+                                className="form-checkbox"
+                            />
+                            <label className="text-sm font-medium">
+                                {t("plan.actionOption", {
+                                    title: action.title,
+                                    savings: t("units.tonnesShort", {value: formatTonnes(action.savings)}),
+                                })}
+                            </label>
+                        </div>
+                        {selections[action.id] && (
+                            <Input
+                                type="date"
+                                className="w-40"
+                                value={selections[action.id]}
+                                onChange={(e) => setSelections({...selections, [action.id]: e.target.value})}
+                            />
+                        )}
+                    </div>
+                ))}
+                <Button
+                    disabled={selectedActions.length === 0}
+                    onClick={() => updatePlan(createPlan(
+                        formData,
+                        result.factorDataset,
+                        selectedActions.map((action) => ({action, targetDate: selections[action.id]}))
+                    ))}
+                >
+                    {t("plan.create")}
+                </Button>
+            </div>
+        );
+    }
+
+    const progress = planProgress(plan);
+    const lastCheckIn = plan.checkIns[plan.checkIns.length - 1];
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <h3 className="text-xl font-semibold">{t("plan.title")}</h3>
+                <Button variant="ghost" size="sm" onClick={() => updatePlan(null)}>
+                    {t("plan.delete")}
+                </Button>
+            </div>
+
+            <div>
+                <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm font-medium text-gray-600">
+                        {t("plan.progress", {
+                            achieved: t("units.tonnesShort", {value: formatTonnes(progress.achievedSavings)}),
+                            planned: t("units.tonnesShort", {value: formatTonnes(progress.plannedSavings)}),
+                        })}
+                    </span>
+                    <span className="text-sm font-medium text-gray-600">
+                        {Math.round(progress.percentage)}%
+                    </span>
+                </div>
+                <Progress value={progress.percentage} className="h-2"/>
+                <p className="text-sm text-gray-500 mt-2">
+                    {t("plan.target", {
+                        target: t("units.tonnesPerYear", {value: formatTonnes(progress.targetTotal)}),
+                        baseline: t("units.tonnes", {value: formatTonnes(progress.baselineTotal)}),
+                        date: formatDate(plan.createdAt),
+                    })}
+                </p>
+            </div>
+
+            <TrendChart trend={projectPlan(plan)}/>
+
+            <div className="space-y-3">
+                <h4 className="font-semibold">{t("plan.checkInTitle")}</h4>
+                {itemsByDate(plan.items).map((item) => (
+                    <div key={item.recommendationId} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                        <div className="flex items-center space-x-2">
+                            <input
+                                type="checkbox"
+                                checked={completedDraft.includes(item.recommendationId)}
+                                onChange={(e) =>
+                                    setCompletedDraft(e.target.checked
+                                        ? [...completedDraft, item.recommendationId]
+                                        : completedDraft.filter((id) => id !== item.recommendationId))
+                                }
+                                className="form-checkbox"
+                            />
+                            <label className="text-sm font-medium">
+                                {t(`recommendations.${item.recommendationId}.title`)}
+                            </label>
+                        </div>
+                        <span className="text-sm text-gray-500">
+                            {t("plan.dueDate", {date: formatDate(item.targetDate)})}
+                        </span>
+                    </div>
+                ))}
+                <div className="flex items-center justify-between">
+                    <Button onClick={() => updatePlan(recordCheckIn(plan, completedDraft))}>
+                        {t("plan.recordCheckIn")}
+                    </Button>
+                    {lastCheckIn && (
+                        <span className="text-sm text-gray-500">
+                            {t("plan.checkIns", {count: plan.checkIns.length, date: formatDate(lastCheckIn.date)})}
+                        </span>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,49 @@
+// components/report-export.tsx
+"use client";
+
+import {Button} from "@/components/ui/button";
+import {useI18n} from "@/components/i18n-provider";
+import {reportToCsv, reportToJson, type FootprintReport} from "@/lib/report";
+
+interface ReportExportProps {
+    report: FootprintReport;
+}
+
+const downloadFile = (fileName: string, content: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], {type}));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+export function ReportExport({report}: ReportExportProps) {
+    const {t} = useI18n();
+    const fileName = `empreinte-carbone-${report.generatedAt.slice(0, 10)}`;
+
+    return (
+        <div className="space-y-3">
+            <h3 className="text-xl font-semibold">{t("report.title")}</h3>
+            <p className="text-sm text-gray-500">{t("report.hint")}</p>
+            <div className="flex flex-wrap gap-2">
+                {/* Le PDF passe par l'impression du navigateur, sur la mise en page dédiée */}
+                <Button variant="outline" onClick={() => window.print()}>
+                    {t("report.pdf")}
+                </Button>
+                <Button
+                    variant="outline"
+                    onClick={() => downloadFile(`${fileName}.csv`, reportToCsv(report), "text/csv;charset=utf-8")}
+                >
+                    {t("report.csv")}
+                </Button>
+                <Button
+                    variant="outline"
+                    onClick={() => downloadFile(`${fileName}.json`, reportToJson(report), "application/json")}
+                >
+                    {t("report.json")}
+                </Button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,54 @@
+// components/report-import.tsx
+"use client";
+
+import {useRef, useState} from "react";
+import {Button} from "@/components/ui/button";
+import {useI18n} from "@/components/i18n-provider";
+import {parseReport} from "@/lib/report";
+import type {FormData} from "@/lib/types";
+
+interface ReportImportProps {
+    onImport: (formData: FormData, estimatedPaths: string[]) => void;
+}
+
+export function ReportImport({onImport}: ReportImportProps) {
+    const {t} = useI18n();
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [failed, setFailed] = useState(false);
+
+    const importFile = (file: File) => {
+        file.text().then((text) => {
+            const imported = parseReport(text);
+            setFailed(!imported);
+            if (imported) {
+                onImport(imported.formData, imported.estimatedPaths);
+            }
+        }).catch(() => setFailed(true));
+    };
+
+    return (
+        <div className="flex flex-col items-end">
+            <input
+                ref={inputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) {
+                        importFile(file);
+                    }
+                    e.target.value = "";
+                }}
+            />
+            <Button variant="link" size="sm" onClick={() => inputRef.current?.click()}>
+                {t("report.import")}
+            </Button>
+            {failed && (
+                <p className="text-sm text-red-600" role="alert">
+                    {t("report.importError")}
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,118 @@
+// components/result-summary.tsx
+"use client";
+
+import {EstimateBadge} from "@/components/estimate-badge";
+import {useI18n} from "@/components/i18n-provider";
+import {isSectorEstimated, type EstimateSector} from "@/lib/quick-estimate";
+import type {CarbonFootprintResult, FootprintUncertainty} from "@/lib/types";
+
+interface ResultSummaryProps {
+    result: CarbonFootprintResult;
+    // Réponses reprises d'un profil type (estimation rapide)
+    estimatedPaths?: string[];
+    // Intervalles de confiance, absents lorsque les réponses ne sont pas connues
+    uncertainty?: FootprintUncertainty | null;
+}
+
+const SECTOR_COLORS: Record<EstimateSector, string> = {
+    transport: "text-blue-600",
+    energy: "text-orange-600",
+    lifestyle: "text-purple-600",
+};
+
+const SECTORS = Object.keys(SECTOR_COLORS) as EstimateSector[];
+
+export function ResultSummary({result, estimatedPaths = [], uncertainty}: ResultSummaryProps) {
+    const {t, formatNumber, formatTonnes, formatCountry} = useI18n();
+    const hasEstimates = estimatedPaths.length > 0;
+    const confidence = uncertainty ? formatNumber(uncertainty.confidence * 100, 0) : "";
+
+    return (
+        <>
+            <div className="text-center mb-8">
+                <div className="text-5xl font-bold text-green-600 mb-2">
+                    {t("units.tonnesPerYear", {value: formatTonnes(result.total)})}
+                </div>
+                {uncertainty && (
+                    <div className="text-sm text-gray-600 mb-2">
+                        {t("uncertainty.range", {
+                            confidence,
+                            low: formatTonnes(uncertainty.total.low),
+                            high: formatTonnes(uncertainty.total.high),
+                        })}
+                    </div>
+                )}
+                {hasEstimates && <EstimateBadge estimated/>}
+                <div className="text-gray-600 mt-2">
+                    {t(result.comparison.percentageFromNational > 0
+                        ? "results.aboveNational"
+                        : "results.belowNational", {
+                        percent: formatNumber(Math.abs(result.comparison.percentageFromNational), 1),
+                        country: formatCountry(result.country),
+                        average: t("units.tonnes", {value: formatNumber(result.comparison.nationalAverage, 1)}),
+                    })}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+                {SECTORS.map((sector) => (
+                    <div key={sector} className="p-4 bg-gray-50 rounded-lg">
+                        <h3 className="font-semibold mb-2">{t(`sectors.${sector}`)}</h3>
+                        <div className={`text-2xl font-bold ${SECTOR_COLORS[sector]}`}>
+                            {t("units.tonnes", {value: formatTonnes(result.breakdown[sector])})}
+                        </div>
+                        {uncertainty && (
+                            <div className="text-xs text-gray-500 mt-1">
+                                {t("uncertainty.sectorRange", {
+                                    low: formatTonnes(uncertainty.breakdown[sector].low),
+                                    high: formatTonnes(uncertainty.breakdown[sector].high),
+                                })}
+                            </div>
+                        )}
+                        {hasEstimates && (
+                            <div className="mt-2">
+                                <EstimateBadge estimated={isSectorEstimated(estimatedPaths, sector)}/>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            <div className="mb-6">
+                <h3 className="text-xl font-semibold mb-3">
+                    {t("results.comparisonTitle")}
+                </h3>
+                <div className="space-y-2">
+                    <div className="flex justify-between items-center">
+                        <span>{t("results.worldAverage")}</span>
+                        <span className="font-semibold">
+                            {t("results.worldAverageValue", {value: formatNumber(result.comparison.worldAverage, 1)})}
+                        </span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                        <span>{t("results.vsWorld")}</span>
+                        <span
+                            className={`font-semibold ${
+                                result.comparison.percentageFromWorld > 0
+                                    ? "text-red-600"
+                                    : "text-green-600"
+                            }`}
+                        >
+                            {result.comparison.percentageFromWorld > 0 ? "+" : ""}
+                            {t("units.percent", {value: formatNumber(result.comparison.percentageFromWorld, 1)})}
+                        </span>
+                    </div>
+                </div>
+            </div>
+
+            <p className="text-xs text-gray-500 mb-6">
+                {t("results.factorDataset", {...result.factorDataset})}
+                {uncertainty && (
+                    <span className="block mt-1">
+                        {t("uncertainty.method", {confidence, samples: formatNumber(uncertainty.samples, 0)})}
+                    </span>
+                )}
+            </p>
+        </>
+    );
+}
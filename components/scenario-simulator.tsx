@@ -0,0 +1,287 @@
+// components/scenario-simulator.tsx
+"use client";
+
+import {useEffect, useState} from "react";
+import {Input} from "@/components/ui/input";
+import {Button} from "@/components/ui/button";
+import {Slider} from "@/components/ui/slider";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {useI18n} from "@/components/i18n-provider";
+import {CAR_TYPES, DIET_TYPES, HEATING_TYPES, INSULATION_LEVELS} from "@/lib/options";
+import {calculateScenario, type Scenario, type ScenarioChanges} from "@/lib/scenarios";
+import {addScenario, loadScenarios, removeScenario} from "@/lib/storage";
+import type {CarbonFootprintResult, FormData} from "@/lib/types";
+
+interface ScenarioSimulatorProps {
+    baseline: FormData;
+    baselineResult: CarbonFootprintResult;
+}
+
+const ROWS = [
+    {sector: "total", value: (result: CarbonFootprintResult) => result.total},
+    {sector: "transport", value: (result: CarbonFootprintResult) => result.breakdown.transport},
+    {sector: "energy", value: (result: CarbonFootprintResult) => result.breakdown.energy},
+    {sector: "lifestyle", value: (result: CarbonFootprintResult) => result.breakdown.lifestyle},
+];
+
+export function ScenarioSimulator({baseline, baselineResult}: ScenarioSimulatorProps) {
+    const {t, formatNumber, formatTonnes} = useI18n();
+    const [changes, setChanges] = useState<ScenarioChanges>({});
+    const [scenarioName, setScenarioName] = useState("");
+    const [scenarios, setScenarios] = useState<Scenario[]>([]);
+
+    useEffect(() => {
+        setScenarios(loadScenarios());
+    }, []);
+
+    const updateChanges = (update: ScenarioChanges) => setChanges({...changes, ...update});
+
+    const columns = [
+        {id: "baseline", name: t("scenarios.current"), result: baselineResult},
+        {
+            id: "draft",
+            name: t("scenarios.draft"),
+            result: calculateScenario(baseline, changes, baselineResult.factorDataset),
+        },
+        ...scenarios.map((scenario) => ({
+            id: scenario.id,
+            name: scenario.name,
+            result: calculateScenario(baseline, scenario.changes, baselineResult.factorDataset),
+        })),
+    ];
+
+    return (
+        <div className="space-y-6">
+            <h3 className="text-xl font-semibold">{t("scenarios.title")}</h3>
+            <p className="text-sm text-gray-600">
+                {t("scenarios.intro")}
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-sm font-medium mb-2">
+                        {t("scenarios.carType")}
+                    </label>
+                    <Select
+                        value={changes.carType ?? baseline.transport.carType}
+                        onValueChange={(value) => updateChanges({carType: value})}
+                    >
+                        <SelectTrigger>
+                            <SelectValue placeholder={t("transport.car.typePlaceholder")}/>
+                        </SelectTrigger>
+                        <SelectContent>
+                            {CAR_TYPES.map((value) => (
+                                <SelectItem key={value} value={value}>
+                                    {value === "none" ? t("scenarios.noCar") : t(`options.carType.${value}`)}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium mb-2">
+                        {t("scenarios.carKm")}
+                    </label>
+                    <Input
+                        type="number"
+                        min="0"
+                        value={changes.carKm ?? baseline.transport.carKm}
+                        onChange={(e) => updateChanges({carKm: Number(e.target.value)})}
+                    />
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium mb-2">
+                        {t("scenarios.diet")}
+                    </label>
+                    <Select
+                        value={changes.dietType ?? baseline.lifestyle.dietType}
+                        onValueChange={(value) => updateChanges({dietType: value})}
+                    >
+                        <SelectTrigger>
+                            <SelectValue placeholder={t("lifestyle.diet.typePlaceholder")}/>
+                        </SelectTrigger>
+                        <SelectContent>
+                            {DIET_TYPES.map((value) => (
+                                <SelectItem key={value} value={value}>
+                                    {t(`options.diet.${value}`)}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium mb-2">
+                        {t("scenarios.heatingType")}
+                    </label>
+                    <Select
+                        value={changes.heatingType ?? baseline.energy.heatingType}
+                        onValueChange={(value) => updateChanges({heatingType: value})}
+                    >
+                        <SelectTrigger>
+                            <SelectValue placeholder={t("energy.consumption.heatingTypePlaceholder")}/>
+                        </SelectTrigger>
+                        <SelectContent>
+                            {HEATING_TYPES.map((value) => (
+                                <SelectItem key={value} value={value}>
+                                    {t(`options.heatingType.${value}`)}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium mb-2">
+                        {t("scenarios.insulation")}
+                    </label>
+                    <Select
+                        value={changes.insulation ?? baseline.energy.insulation}
+                        onValueChange={(value) => updateChanges({insulation: value})}
+                    >
+                        <SelectTrigger>
+                            <SelectValue placeholder={t("energy.home.insulationPlaceholder")}/>
+                        </SelectTrigger>
+                        <SelectContent>
+                            {INSULATION_LEVELS.map((value) => (
+                                <SelectItem key={value} value={value}>
+                                    {t(`options.insulation.${value}`)}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium mb-2">
+                        {t("scenarios.renewable")}
+                    </label>
+                    <Slider
+                        value={[changes.renewablePercentage ?? baseline.energy.renewablePercentage ?? 0]}
+                        max={100}
+                        step={5}
+                        onValueChange={(value) => updateChanges({renewablePercentage: value[0]})}
+                    />
+                    <p className="text-sm text-gray-500 mt-1">
+                        {t("energy.renewable.percentageValue", {
+                            value: changes.renewablePercentage ?? baseline.energy.renewablePercentage ?? 0,
+                        })}
+                    </p>
+                </div>
+
+                {!baseline.transport.detailedFlights && (
+                    <div>
+                        <label className="block text-sm font-medium mb-2">
+                            {t("scenarios.flights")}
+                        </label>
+                        <div className="grid grid-cols-2 gap-2">
+                            <Input
+                                type="number"
+                                min="0"
+                                value={changes.flightsShortHaul ?? baseline.transport.flightsShortHaul}
+                                onChange={(e) => updateChanges({flightsShortHaul: Number(e.target.value)})}
+                            />
+                            <Input
+                                type="number"
+                                min="0"
+                                value={changes.flightsMediumHaul ?? baseline.transport.flightsMediumHaul}
+                                onChange={(e) => updateChanges({flightsMediumHaul: Number(e.target.value)})}
+                            />
+                        </div>
+                    </div>
+                )}
+
+                <div className="flex items-center space-x-2">
+                    <input
+                        type="checkbox"
+                        checked={changes.dropLongHaulFlights ?? false}
+                        onChange={(e) => updateChanges({dropLongHaulFlights: e.target.checked})}
+                        className="form-checkbox"
+                    />
+                    <label className="text-sm font-medium">
+                        {t("scenarios.dropLongHaul")}
+                    </label>
+                </div>
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                    <tr className="text-left text-gray-600">
+                        <th className="py-2"></th>
+                        {columns.map((column) => (
+                            <th key={column.id} className="py-2">
+                                <div className="flex items-center space-x-2">
+                                    <span>{column.name}</span>
+                                    {column.id !== "baseline" && column.id !== "draft" && (
+                                        <button
+                                            className="text-xs text-gray-400 hover:text-red-600"
+                                            onClick={() => setScenarios(removeScenario(column.id))}
+                                            aria-label={t("scenarios.deleteScenario", {name: column.name})}
+                                        >
+                                            ✕
+                                        </button>
+                                    )}
+                                </div>
+                            </th>
+                        ))}
+                    </tr>
+                    </thead>
+                    <tbody>
+                    {ROWS.map((row) => (
+                        <tr key={row.sector} className="border-t">
+                            <td className="py-2 font-medium">{t(`sectors.${row.sector}`)}</td>
+                            {columns.map((column) => {
+                                const value = row.value(column.result);
+                                const reference = row.value(baselineResult);
+                                const change = reference > 0 ? ((value - reference) / reference) * 100 : 0;
+                                return (
+                                    <td key={column.id} className="py-2">
+                                        <div className="font-medium">
+                                            {t("units.tonnesShort", {value: formatTonnes(value)})}
+                                        </div>
+                                        {column.id !== "baseline" && (
+                                            <div className={change > 0 ? "text-red-600" : "text-green-600"}>
+                                                {change > 0 ? "+" : ""}{t("units.percent", {value: formatNumber(change, 1)})}
+                                            </div>
+                                        )}
+                                    </td>
+                                );
+                            })}
+                        </tr>
+                    ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="flex flex-col md:flex-row gap-2">
+                <Input
+                    placeholder={t("scenarios.namePlaceholder")}
+                    value={scenarioName}
+                    onChange={(e) => setScenarioName(e.target.value)}
+                />
+                <Button
+                    disabled={!scenarioName.trim() || Object.keys(changes).length === 0}
+                    onClick={() => {
+                        setScenarios(addScenario(scenarioName.trim(), changes));
+                        setScenarioName("");
+                        setChanges({});
+                    }}
+                >
+                    {t("scenarios.save")}
+                </Button>
+                <Button variant="outline" onClick={() => setChanges({})}>
+                    {t("common.reset")}
+                </Button>
+            </div>
+        </div>
+    );
+}
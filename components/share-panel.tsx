@@ -0,0 +1,62 @@
+// components/share-panel.tsx
+"use client";
+
+import {useState} from "react";
+import {Button} from "@/components/ui/button";
+import {Input} from "@/components/ui/input";
+import {useI18n} from "@/components/i18n-provider";
+import {sharePath, type SharedPayload} from "@/lib/share";
+import type {CarbonFootprintResult, FormData} from "@/lib/types";
+
+interface SharePanelProps {
+    formData: FormData;
+    result: CarbonFootprintResult;
+}
+
+export function SharePanel({formData, result}: SharePanelProps) {
+    const {t} = useI18n();
+    // Par défaut, seul le résultat est partagé : les réponses décrivent les habitudes de l'utilisateur
+    const [includeAnswers, setIncludeAnswers] = useState(false);
+    const [copied, setCopied] = useState(false);
+
+    const payload: SharedPayload = includeAnswers
+        ? {kind: "answers", formData, factorDataset: result.factorDataset}
+        : {kind: "result", result};
+    const url = typeof window === "undefined"
+        ? sharePath(payload)
+        : `${window.location.origin}${sharePath(payload)}`;
+
+    const copyLink = () => {
+        navigator.clipboard
+            .writeText(url)
+            .then(() => setCopied(true))
+            .catch(() => setCopied(false));
+    };
+
+    return (
+        <div className="space-y-3">
+            <h3 className="text-xl font-semibold">{t("share.title")}</h3>
+            <div className="flex items-center space-x-2">
+                <input
+                    type="checkbox"
+                    checked={includeAnswers}
+                    onChange={(e) => {
+                        setIncludeAnswers(e.target.checked);
+                        setCopied(false);
+                    }}
+                    className="form-checkbox"
+                />
+                <label className="text-sm font-medium">{t("share.includeAnswers")}</label>
+            </div>
+            <p className="text-sm text-gray-500">
+                {t(includeAnswers ? "share.answersHint" : "share.resultHint")}
+            </p>
+            <div className="flex gap-2">
+                <Input readOnly value={url} onFocus={(e) => e.target.select()}/>
+                <Button variant="outline" onClick={copyLink}>
+                    {t(copied ? "share.copied" : "share.copy")}
+                </Button>
+            </div>
+        </div>
+    );
+}
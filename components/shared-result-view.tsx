@@ -0,0 +1,129 @@
+// components/shared-result-view.tsx
+"use client";
+
+import {useEffect, useState} from "react";
+import Link from "next/link";
+import {motion} from "framer-motion";
+import {Card} from "@/components/ui/card";
+import {Button} from "@/components/ui/button";
+import {useI18n} from "@/components/i18n-provider";
+import {LocaleSwitcher} from "@/components/locale-switcher";
+import {ResultSummary} from "@/components/result-summary";
+import {getFactorDataset} from "@/lib/factors";
+import {getRecommendations} from "@/lib/recommendations";
+import {decodeShare, sharedResult} from "@/lib/share";
+import {loadHistory, type SavedCalculation} from "@/lib/storage";
+import {estimateUncertainty} from "@/lib/uncertainty";
+
+interface SharedResultViewProps {
+    token: string;
+}
+
+const COMPARED_SERIES = ["total", "transport", "energy", "lifestyle"] as const;
+
+export function SharedResultView({token}: SharedResultViewProps) {
+    const {locale, t, formatTonnes} = useI18n();
+    const [latest, setLatest] = useState<SavedCalculation | null>(null);
+
+    // Dernier calcul de la personne qui ouvre le lien, pour la comparaison
+    useEffect(() => {
+        const history = [...loadHistory()].sort((a, b) => b.date.localeCompare(a.date));
+        setLatest(history[0] ?? null);
+    }, []);
+
+    const payload = decodeShare(token);
+    const result = payload && sharedResult(payload);
+    const recommendations = payload?.kind === "answers"
+        ? getRecommendations(payload.formData, getFactorDataset(payload.factorDataset), locale)
+        : [];
+    // Un lien de résultat seul ne contient pas les réponses : pas d'intervalle dans ce cas
+    const uncertainty = payload?.kind === "answers"
+        ? estimateUncertainty(payload.formData, [], getFactorDataset(payload.factorDataset))
+        : null;
+
+    const seriesValue = (series: typeof COMPARED_SERIES[number], values: SavedCalculation["result"]) =>
+        series === "total" ? values.total : values.breakdown[series];
+    const formatDelta = (delta: number) =>
+        t("units.tonnesShort", {value: `${delta > 0 ? "+" : ""}${formatTonnes(delta)}`});
+
+    return (
+        <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 p-8">
+            <motion.div
+                initial={{opacity: 0, y: 20}}
+                animate={{opacity: 1, y: 0}}
+                className="max-w-4xl mx-auto"
+            >
+                <div className="flex justify-end mb-4">
+                    <LocaleSwitcher/>
+                </div>
+                <h1 className="text-4xl font-bold text-center mb-8 text-gray-800">
+                    {t("app.title")}
+                </h1>
+
+                <Card className="p-6">
+                    {!result ? (
+                        <p className="text-gray-600 mb-6">{t("share.invalid")}</p>
+                    ) : (
+                        <>
+                            <h2 className="text-2xl font-semibold mb-2">{t("share.sharedTitle")}</h2>
+                            <p className="text-sm text-gray-500 mb-6">
+                                {t(payload.kind === "answers" ? "share.sharedAnswers" : "share.sharedResult")}
+                            </p>
+                            <ResultSummary result={result} uncertainty={uncertainty}/>
+
+                            {latest && (
+                                <div className="mb-8">
+                                    <h3 className="text-xl font-semibold mb-3">{t("share.comparison.title")}</h3>
+                                    <table className="w-full text-sm">
+                                        <thead>
+                                            <tr className="text-left text-gray-500">
+                                                <th className="py-1 font-medium"/>
+                                                <th className="py-1 font-medium">{t("share.comparison.shared")}</th>
+                                                <th className="py-1 font-medium">{t("share.comparison.yours")}</th>
+                                                <th className="py-1 font-medium">{t("share.comparison.difference")}</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {COMPARED_SERIES.map((series) => {
+                                                const shared = seriesValue(series, result);
+                                                const yours = seriesValue(series, latest.result);
+                                                return (
+                                                    <tr key={series} className="border-t">
+                                                        <td className="py-2 font-medium">{t(`sectors.${series}`)}</td>
+                                                        <td className="py-2">{t("units.tonnesShort", {value: formatTonnes(shared)})}</td>
+                                                        <td className="py-2">{t("units.tonnesShort", {value: formatTonnes(yours)})}</td>
+                                                        <td className={`py-2 ${yours > shared ? "text-red-600" : "text-green-600"}`}>
+                                                            {formatDelta(yours - shared)}
+                                                        </td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+
+                            {recommendations.length > 0 && (
+                                <div className="space-y-3 mb-8">
+                                    <h3 className="text-xl font-semibold">{t("results.recommendationsTitle")}</h3>
+                                    {recommendations.map((action) => (
+                                        <div key={action.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                                            <span className="font-medium">{action.title}</span>
+                                            <span className="text-sm px-2 py-1 bg-green-100 text-green-800 rounded whitespace-nowrap">
+                                                {t("results.savings", {value: formatTonnes(action.savings)})}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </>
+                    )}
+
+                    <Button asChild className="w-full">
+                        <Link href="/">{t("share.calculateOwn")}</Link>
+                    </Button>
+                </Card>
+            </motion.div>
+        </div>
+    );
+}
@@ -0,0 +1,157 @@
+// components/team-admin.tsx
+"use client";
+
+import {useCallback, useEffect, useState} from "react";
+import Link from "next/link";
+import {Card} from "@/components/ui/card";
+import {Button} from "@/components/ui/button";
+import {Input} from "@/components/ui/input";
+import {useI18n} from "@/components/i18n-provider";
+import {LocaleSwitcher} from "@/components/locale-switcher";
+import {TeamDashboard} from "@/components/team-dashboard";
+import {problemCode} from "@/lib/problem";
+import {clearTeamAdmin, loadTeamAdmin, saveTeamAdmin, type TeamAdminCredentials} from "@/lib/storage";
+import {normalizeTeamCode} from "@/lib/teams";
+import type {TeamSummary} from "@/lib/types";
+
+export function TeamAdmin() {
+    const {t} = useI18n();
+    const [credentials, setCredentials] = useState<TeamAdminCredentials | null>(null);
+    const [summary, setSummary] = useState<TeamSummary | null>(null);
+    // Clé affichée une seule fois, juste après la création
+    const [createdKey, setCreatedKey] = useState<string | null>(null);
+    const [teamName, setTeamName] = useState("");
+    const [code, setCode] = useState("");
+    const [adminKey, setAdminKey] = useState("");
+    const [error, setError] = useState<string | null>(null);
+
+    const openDashboard = useCallback(async (target: TeamAdminCredentials) => {
+        setError(null);
+        try {
+            const response = await fetch(`/api/teams/${target.code}`, {
+                headers: {Authorization: `Bearer ${target.adminKey}`},
+            });
+            const body = await response.json();
+            if (!response.ok) {
+                setError(problemCode(body) ?? "network");
+                return;
+            }
+            saveTeamAdmin(target);
+            setCredentials(target);
+            setSummary(body);
+        } catch {
+            setError("network");
+        }
+    }, []);
+
+    useEffect(() => {
+        const saved = loadTeamAdmin();
+        if (saved) {
+            void openDashboard(saved);
+        }
+    }, [openDashboard]);
+
+    const createTeam = async () => {
+        setError(null);
+        try {
+            const response = await fetch("/api/teams", {
+                method: "POST",
+                headers: {"Content-Type": "application/json"},
+                body: JSON.stringify({name: teamName}),
+            });
+            const body = await response.json();
+            if (!response.ok) {
+                setError(problemCode(body) ?? "network");
+                return;
+            }
+            setCreatedKey(body.adminKey);
+            await openDashboard({code: body.code, adminKey: body.adminKey});
+        } catch {
+            setError("network");
+        }
+    };
+
+    const closeDashboard = () => {
+        clearTeamAdmin();
+        setCredentials(null);
+        setSummary(null);
+        setCreatedKey(null);
+    };
+
+    return (
+        <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 p-8">
+            <div className="max-w-4xl mx-auto">
+                <div className="flex justify-between items-center mb-4">
+                    <Button asChild variant="link" size="sm">
+                        <Link href="/">{t("team.backToCalculator")}</Link>
+                    </Button>
+                    <LocaleSwitcher/>
+                </div>
+                <h1 className="text-4xl font-bold text-center mb-8 text-gray-800">
+                    {t("team.title")}
+                </h1>
+
+                {error && (
+                    <p className="p-4 mb-6 bg-red-50 rounded-lg text-sm text-red-700" role="alert">
+                        {t(`team.errors.${error}`)}
+                    </p>
+                )}
+
+                {credentials && summary ? (
+                    <Card className="p-6">
+                        {createdKey && (
+                            <div className="p-4 mb-8 bg-amber-50 rounded-lg space-y-2">
+                                <p className="text-sm text-amber-800">{t("team.admin.keyNotice")}</p>
+                                <Input readOnly value={createdKey} onFocus={(e) => e.target.select()}/>
+                            </div>
+                        )}
+                        <TeamDashboard
+                            summary={summary}
+                            onRefresh={() => void openDashboard(credentials)}
+                            onClose={closeDashboard}
+                        />
+                    </Card>
+                ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <Card className="p-6 space-y-4">
+                            <h2 className="text-xl font-semibold">{t("team.admin.createTitle")}</h2>
+                            <p className="text-sm text-gray-500">{t("team.admin.createHint")}</p>
+                            <Input
+                                value={teamName}
+                                placeholder={t("team.admin.namePlaceholder")}
+                                aria-label={t("team.admin.name")}
+                                onChange={(e) => setTeamName(e.target.value)}
+                            />
+                            <Button onClick={createTeam} disabled={!teamName.trim()}>
+                                {t("team.admin.create")}
+                            </Button>
+                        </Card>
+                        <Card className="p-6 space-y-4">
+                            <h2 className="text-xl font-semibold">{t("team.admin.openTitle")}</h2>
+                            <Input
+                                value={code}
+                                placeholder={t("team.codePlaceholder")}
+                                aria-label={t("team.code")}
+                                onChange={(e) => setCode(e.target.value)}
+                            />
+                            <Input
+                                type="password"
+                                value={adminKey}
+                                placeholder={t("team.admin.key")}
+                                aria-label={t("team.admin.key")}
+                                onChange={(e) => setAdminKey(e.target.value)}
+                            />
+                            <Button
+                                variant="outline"
+                                onClick={() => openDashboard({code: normalizeTeamCode(code), adminKey: adminKey.trim()})}
+                                disabled={!code.trim() || !adminKey.trim()}
+                            >
+                                {t("team.admin.open")}
+                            </Button>
+                        </Card>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
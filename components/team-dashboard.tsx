@@ -0,0 +1,118 @@
+// components/team-dashboard.tsx
+"use client";
+
+import {Button} from "@/components/ui/button";
+import {Input} from "@/components/ui/input";
+import {useI18n} from "@/components/i18n-provider";
+import type {TeamSummary} from "@/lib/types";
+
+interface TeamDashboardProps {
+    summary: TeamSummary;
+    onRefresh: () => void;
+    onClose: () => void;
+}
+
+const SECTORS = ["transport", "energy", "lifestyle"] as const;
+
+export function TeamDashboard({summary, onRefresh, onClose}: TeamDashboardProps) {
+    const {t, formatNumber, formatTonnes} = useI18n();
+    const {aggregate} = summary;
+    const inviteUrl = typeof window === "undefined"
+        ? `/?team=${summary.code}`
+        : `${window.location.origin}/?team=${summary.code}`;
+    const largestBucket = aggregate ? Math.max(...aggregate.distribution.map((bucket) => bucket.count), 1) : 1;
+
+    return (
+        <div className="space-y-8">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h2 className="text-2xl font-semibold">{summary.name}</h2>
+                    <p className="text-sm text-gray-500">{t("team.dashboard.code", {code: summary.code})}</p>
+                </div>
+                <div className="flex gap-2">
+                    <Button variant="outline" onClick={onRefresh}>{t("team.dashboard.refresh")}</Button>
+                    <Button variant="outline" onClick={onClose}>{t("team.dashboard.close")}</Button>
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                <label className="block text-sm font-medium">{t("team.dashboard.invite")}</label>
+                <Input readOnly value={inviteUrl} onFocus={(e) => e.target.select()}/>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="p-4 bg-gray-50 rounded-lg">
+                    <h3 className="font-semibold mb-2">{t("team.dashboard.participants")}</h3>
+                    <div className="text-2xl font-bold text-gray-800">{formatNumber(summary.participants)}</div>
+                </div>
+                {aggregate && (
+                    <>
+                        <div className="p-4 bg-gray-50 rounded-lg">
+                            <h3 className="font-semibold mb-2">{t("team.dashboard.median")}</h3>
+                            <div className="text-2xl font-bold text-green-600">
+                                {t("units.tonnes", {value: formatTonnes(aggregate.median)})}
+                            </div>
+                        </div>
+                        <div className="p-4 bg-gray-50 rounded-lg">
+                            <h3 className="font-semibold mb-2">{t("team.dashboard.mean")}</h3>
+                            <div className="text-2xl font-bold text-gray-800">
+                                {t("units.tonnes", {value: formatTonnes(aggregate.mean)})}
+                            </div>
+                        </div>
+                    </>
+                )}
+            </div>
+
+            {aggregate ? (
+                <>
+                    <p className="text-sm text-gray-500">
+                        {t("team.dashboard.snapshot", {
+                            count: aggregate.participants,
+                            next: aggregate.participants + summary.minGroupSize,
+                        })}
+                    </p>
+
+                    <div>
+                        <h3 className="text-xl font-semibold mb-3">{t("team.dashboard.sectorAverages")}</h3>
+                        <div className="space-y-2">
+                            {SECTORS.map((sector) => (
+                                <div key={sector} className="flex justify-between items-center">
+                                    <span>{t(`sectors.${sector}`)}</span>
+                                    <span className="font-semibold">
+                                        {t("units.tonnes", {value: formatTonnes(aggregate.sectorAverages[sector])})}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div>
+                        <h3 className="text-xl font-semibold mb-3">{t("team.dashboard.distribution")}</h3>
+                        <div className="space-y-1">
+                            {aggregate.distribution.map((bucket) => (
+                                <div key={bucket.from} className="grid grid-cols-4 gap-3 items-center text-sm">
+                                    <span className="text-gray-600">
+                                        {bucket.to === null
+                                            ? t("team.dashboard.bucketOpen", {from: formatNumber(bucket.from)})
+                                            : t("team.dashboard.bucket", {from: formatNumber(bucket.from), to: formatNumber(bucket.to)})}
+                                    </span>
+                                    <div className="col-span-2 h-3 bg-gray-100 rounded">
+                                        <div
+                                            className="h-3 bg-green-500 rounded"
+                                            style={{width: `${(bucket.count / largestBucket) * 100}%`}}
+                                        />
+                                    </div>
+                                    <span className="text-right">{formatNumber(bucket.count)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </>
+            ) : (
+                <p className="p-4 bg-amber-50 rounded-lg text-sm text-amber-800">
+                    {t("team.dashboard.belowMinimum", {count: summary.participants, minimum: summary.minGroupSize})}
+                </p>
+            )}
+        </div>
+    );
+}
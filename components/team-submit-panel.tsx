@@ -0,0 +1,86 @@
+// components/team-submit-panel.tsx
+"use client";
+
+import {useEffect, useState} from "react";
+import {Button} from "@/components/ui/button";
+import {Input} from "@/components/ui/input";
+import {useI18n} from "@/components/i18n-provider";
+import {problemCode} from "@/lib/problem";
+import {isTeamCode, MIN_GROUP_SIZE, normalizeTeamCode} from "@/lib/teams";
+import type {CarbonFootprintResult} from "@/lib/types";
+
+interface TeamSubmitPanelProps {
+    result: CarbonFootprintResult;
+}
+
+type SubmitStatus =
+    | { kind: "idle" }
+    | { kind: "sending" }
+    | { kind: "sent"; name: string; participants: number }
+    | { kind: "error"; error: string };
+
+export function TeamSubmitPanel({result}: TeamSubmitPanelProps) {
+    const {t} = useI18n();
+    const [code, setCode] = useState("");
+    const [status, setStatus] = useState<SubmitStatus>({kind: "idle"});
+
+    // Lien d'invitation de l'équipe : /?team=<code>
+    useEffect(() => {
+        const invited = new URLSearchParams(window.location.search).get("team");
+        if (invited) {
+            setCode(normalizeTeamCode(invited));
+        }
+    }, []);
+
+    const submit = async () => {
+        const teamCode = normalizeTeamCode(code);
+        if (!isTeamCode(teamCode)) {
+            setStatus({kind: "error", error: "teamNotFound"});
+            return;
+        }
+        setStatus({kind: "sending"});
+        try {
+            const response = await fetch(`/api/teams/${teamCode}/submissions`, {
+                method: "POST",
+                headers: {"Content-Type": "application/json"},
+                body: JSON.stringify({result}),
+            });
+            const body = await response.json();
+            setStatus(response.ok
+                ? {kind: "sent", name: body.name, participants: body.participants}
+                : {kind: "error", error: problemCode(body) ?? "network"});
+        } catch {
+            setStatus({kind: "error", error: "network"});
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            <h3 className="text-xl font-semibold">{t("team.submit.title")}</h3>
+            <p className="text-sm text-gray-500">{t("team.submit.hint", {minimum: MIN_GROUP_SIZE})}</p>
+            {status.kind === "sent" ? (
+                <p className="text-sm text-green-700" role="status">
+                    {t("team.submit.sent", {name: status.name, count: status.participants})}
+                </p>
+            ) : (
+                <div className="flex gap-2">
+                    <Input
+                        value={code}
+                        placeholder={t("team.codePlaceholder")}
+                        aria-label={t("team.code")}
+                        onChange={(e) => {
+                            setCode(e.target.value);
+                            setStatus({kind: "idle"});
+                        }}
+                    />
+                    <Button variant="outline" onClick={submit} disabled={!code.trim() || status.kind === "sending"}>
+                        {t("team.submit.send")}
+                    </Button>
+                </div>
+            )}
+            {status.kind === "error" && (
+                <p className="text-sm text-red-600" role="alert">{t(`team.errors.${status.error}`)}</p>
+            )}
+        </div>
+    );
+}
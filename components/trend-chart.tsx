@@ -0,0 +1,93 @@
+// components/trend-chart.tsx
+"use client";
+
+import {useI18n} from "@/components/i18n-provider";
+import {TARGET_2050_PER_PERSON, TREND_SERIES, type TrendPoint, type TrendSeries} from "@/lib/trends";
+
+interface TrendChartProps {
+    trend: TrendPoint[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 260;
+const PADDING = {top: 16, right: 16, bottom: 32, left: 40};
+
+// Les libellés des séries sont dans les catalogues, sous "sectors.<série>"
+export const SERIES_STYLES: Record<TrendSeries, {stroke: string; text: string}> = {
+    total: {stroke: "stroke-green-600", text: "text-green-600"},
+    transport: {stroke: "stroke-blue-600", text: "text-blue-600"},
+    energy: {stroke: "stroke-orange-600", text: "text-orange-600"},
+    lifestyle: {stroke: "stroke-purple-600", text: "text-purple-600"},
+};
+
+export function TrendChart({trend}: TrendChartProps) {
+    const {t, formatDate, formatNumber} = useI18n();
+    const times = trend.map((point) => new Date(point.date).getTime());
+    const minTime = Math.min(...times);
+    const timeSpan = Math.max(...times) - minTime;
+    const maxValue = Math.max(TARGET_2050_PER_PERSON, ...trend.map((point) => point.total)) * 1.1;
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+    const x = (time: number) =>
+        PADDING.left + (timeSpan === 0 ? plotWidth / 2 : ((time - minTime) / timeSpan) * plotWidth);
+    const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+
+    const yTicks = [0, 0.25, 0.5, 0.75, 1].map((ratio) => ratio * maxValue);
+
+    return (
+        <div className="space-y-3">
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img"
+                 aria-label={t("trends.chartLabel")}>
+                {yTicks.map((tick) => (
+                    <g key={tick}>
+                        <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)}
+                              className="stroke-gray-200"/>
+                        <text x={PADDING.left - 6} y={y(tick) + 4} textAnchor="end"
+                              className="fill-gray-500 text-[10px]">
+                            {formatNumber(tick, 1)}
+                        </text>
+                    </g>
+                ))}
+
+                <line x1={PADDING.left} x2={WIDTH - PADDING.right}
+                      y1={y(TARGET_2050_PER_PERSON)} y2={y(TARGET_2050_PER_PERSON)}
+                      strokeDasharray="6 4" className="stroke-red-500"/>
+                <text x={WIDTH - PADDING.right} y={y(TARGET_2050_PER_PERSON) - 6} textAnchor="end"
+                      className="fill-red-500 text-[10px]">
+                    {t("trends.targetLine", {value: formatNumber(TARGET_2050_PER_PERSON)})}
+                </text>
+
+                {TREND_SERIES.map((series) => (
+                    <g key={series} className={SERIES_STYLES[series].stroke}>
+                        <polyline
+                            fill="none"
+                            strokeWidth={series === "total" ? 3 : 2}
+                            points={trend.map((point, index) => `${x(times[index])},${y(point[series])}`).join(" ")}
+                        />
+                        {trend.map((point, index) => (
+                            <circle key={point.id} cx={x(times[index])} cy={y(point[series])} r={3}
+                                    className="fill-white" strokeWidth={2}/>
+                        ))}
+                    </g>
+                ))}
+
+                {trend.map((point, index) => (
+                    <text key={point.id} x={x(times[index])} y={HEIGHT - 10} textAnchor="middle"
+                          className="fill-gray-500 text-[10px]">
+                        {formatDate(point.date, {month: "short", year: "numeric"})}
+                    </text>
+                ))}
+            </svg>
+
+            <div className="flex flex-wrap gap-4 text-sm">
+                {TREND_SERIES.map((series) => (
+                    <span key={series} className={`font-medium ${SERIES_STYLES[series].text}`}>
+                        ● {t(`sectors.${series}`)}
+                    </span>
+                ))}
+                <span className="font-medium text-red-500">- - {t("trends.targetLegend")}</span>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,224 @@
+// components/wizard-step.tsx
+"use client";
+
+import {motion} from "framer-motion";
+import {Input} from "@/components/ui/input";
+import {Slider} from "@/components/ui/slider";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {CommuteBuilder} from "@/components/commute-builder";
+import {FieldIssues} from "@/components/field-issues";
+import {FlightLegsEditor} from "@/components/flight-legs-editor";
+import {useI18n} from "@/components/i18n-provider";
+import type {CommuteTrip, FlightLeg, FormData} from "@/lib/types";
+import type {ValidationIssue} from "@/lib/validation";
+import {
+    getFormValue,
+    isFieldVisible,
+    isNumericField,
+    setFormValue,
+    type Text,
+    type TextContext,
+    type WizardField,
+    type WizardSubStep,
+} from "@/lib/wizard";
+
+interface WizardStepProps {
+    subStep: WizardSubStep;
+    formData: FormData;
+    issues: ValidationIssue[];
+    // Réponses reprises d'un profil type ou signalées comme estimées
+    estimatedPaths?: string[];
+    onChange: (formData: FormData) => void;
+    // Sans ce rappel, les réponses chiffrées ne peuvent pas être signalées comme estimées
+    onEstimatedChange?: (path: string, estimated: boolean) => void;
+}
+
+export function WizardStep({
+    subStep,
+    formData,
+    issues,
+    estimatedPaths = [],
+    onChange,
+    onEstimatedChange,
+}: WizardStepProps) {
+    const {t, formatNumber, formatCountry} = useI18n();
+    const context: TextContext = {formData, t, formatNumber, formatCountry};
+    const text = (value: Text) => (typeof value === "function" ? value(context) : t(value));
+
+    const update = (path: string, value: unknown) => onChange(setFormValue(formData, path, value));
+    const fieldIssues = (path: string) => issues.filter((issue) => issue.path === path);
+
+    const renderLabel = (field: WizardField) =>
+        field.label && (
+            <label className="block text-sm font-medium mb-2">
+                {text(field.label)}
+            </label>
+        );
+
+    const renderHint = (field: WizardField) =>
+        field.hint && (
+            <p className="text-sm text-gray-500 mt-1">
+                {text(field.hint)}
+            </p>
+        );
+
+    const renderField = (field: WizardField) => {
+        const value = getFormValue(formData, field.path);
+
+        switch (field.type) {
+            // Un champ vidé reste sans valeur : la règle "required" le signale
+            case "number":
+                return (
+                    <div>
+                        {renderLabel(field)}
+                        <Input
+                            type="number"
+                            min={field.min}
+                            max={field.max}
+                            value={typeof value === "number" ? value : ""}
+                            onChange={(e) => update(field.path, e.target.value === "" ? undefined : Number(e.target.value))}
+                        />
+                        <FieldIssues issues={fieldIssues(field.path)}/>
+                        {renderHint(field)}
+                    </div>
+                );
+
+            case "select":
+                return (
+                    <div>
+                        {renderLabel(field)}
+                        <Select
+                            value={value === undefined ? undefined : String(value)}
+                            onValueChange={(selected) =>
+                                update(field.path, field.options.find((option) => String(option) === selected))
+                            }
+                        >
+                            <SelectTrigger>
+                                <SelectValue placeholder={text(field.placeholder)}/>
+                            </SelectTrigger>
+                            <SelectContent>
+                                {field.options.map((option) => (
+                                    <SelectItem key={option} value={String(option)}>
+                                        {field.optionLabel(option, context)}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <FieldIssues issues={fieldIssues(field.path)}/>
+                        {renderHint(field)}
+                    </div>
+                );
+
+            case "checkbox":
+                return (
+                    <div>
+                        <div className="flex items-center space-x-2">
+                            <input
+                                type="checkbox"
+                                checked={Boolean(value)}
+                                onChange={(e) => update(field.path, e.target.checked)}
+                                className="form-checkbox"
+                            />
+                            <label className="text-sm font-medium">
+                                {field.label && text(field.label)}
+                            </label>
+                        </div>
+                        <FieldIssues issues={fieldIssues(field.path)}/>
+                    </div>
+                );
+
+            case "slider":
+                return (
+                    <div>
+                        {renderLabel(field)}
+                        <Slider
+                            value={[Number(value ?? 0)]}
+                            max={field.max}
+                            step={field.step}
+                            onValueChange={(selected) => update(field.path, selected[0])}
+                        />
+                        <p className="text-sm text-gray-500 mt-1">
+                            {t(field.valueLabel, {value: Number(value ?? 0)})}
+                        </p>
+                        <FieldIssues issues={fieldIssues(field.path)}/>
+                    </div>
+                );
+
+            case "note":
+                return (
+                    <p className="text-sm text-gray-500">
+                        {text(field.text)}
+                    </p>
+                );
+
+            case "commutes":
+                return (
+                    <CommuteBuilder
+                        trips={value as CommuteTrip[]}
+                        issues={issues}
+                        onChange={(trips) => update(field.path, trips)}
+                    />
+                );
+
+            case "flightLegs":
+                return (
+                    <FlightLegsEditor
+                        legs={value as FlightLeg[]}
+                        radiativeForcing={formData.transport.radiativeForcing}
+                        issues={issues}
+                        onChange={(legs) => update(field.path, legs)}
+                    />
+                );
+        }
+    };
+
+    return (
+        <motion.div
+            initial={{opacity: 0, x: -20}}
+            animate={{opacity: 1, x: 0}}
+            exit={{opacity: 0, x: 20}}
+            className="space-y-6"
+        >
+            <h3 className="text-xl font-semibold">{text(subStep.title)}</h3>
+            {subStep.intro && (
+                <p className="text-sm text-gray-500">
+                    {text(subStep.intro)}
+                </p>
+            )}
+            <div className="space-y-4">
+                {subStep.fields
+                    .filter((field) => isFieldVisible(field, formData))
+                    .map((field) => (
+                        <motion.div
+                            key={`${field.type}-${field.path}`}
+                            initial={field.visibleWhen ? {opacity: 0, y: 10} : false}
+                            animate={{opacity: 1, y: 0}}
+                        >
+                            {renderField(field)}
+                            {onEstimatedChange && isNumericField(field) ? (
+                                <label className="flex items-center space-x-2 mt-2 text-sm text-gray-600">
+                                    <input
+                                        type="checkbox"
+                                        checked={estimatedPaths.includes(field.path)}
+                                        onChange={(e) => onEstimatedChange(field.path, e.target.checked)}
+                                        className="form-checkbox"
+                                    />
+                                    <span>{t("uncertainty.estimatedInput")}</span>
+                                </label>
+                            ) : estimatedPaths.includes(field.path) && (
+                                <p className="text-sm text-amber-600 mt-1">
+                                    {t("quick.estimatedField")}
+                                </p>
+                            )}
+                        </motion.div>
+                    ))}
+            </div>
+        </motion.div>
+    );
+}
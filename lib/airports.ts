@@ -0,0 +1,44 @@
+// lib/airports.ts
+// Jeu de données hors ligne des aéroports et distance orthodromique.
+
+import airportTable from "@/data/airports.json";
+
+export interface Airport {
+    code: string;
+    name: string;
+    city: string;
+    country: string;
+    latitude: number;
+    longitude: number;
+}
+
+export const AIRPORTS: Airport[] = airportTable.airports;
+
+const EARTH_RADIUS_KM = 6371;
+
+export const findAirport = (code: string): Airport | undefined => {
+    const normalizedCode = code.trim().toUpperCase();
+    return AIRPORTS.find((airport) => airport.code === normalizedCode);
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Formule de haversine
+export const greatCircleDistanceKm = (from: Airport, to: Airport) => {
+    const deltaLatitude = toRadians(to.latitude - from.latitude);
+    const deltaLongitude = toRadians(to.longitude - from.longitude);
+    const a = Math.sin(deltaLatitude / 2) ** 2 +
+        Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) *
+        Math.sin(deltaLongitude / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+// Distance entre deux codes IATA, ou undefined si l'un des codes est inconnu
+export const distanceBetweenAirports = (origin: string, destination: string) => {
+    const from = findAirport(origin);
+    const to = findAirport(destination);
+    if (!from || !to) {
+        return undefined;
+    }
+    return greatCircleDistanceKm(from, to);
+};
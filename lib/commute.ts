@@ -0,0 +1,50 @@
+// lib/commute.ts
+// Conversion des trajets réguliers en kilomètres annuels par mode de transport.
+
+import type {CommuteTrip, TransportData} from "@/lib/types";
+
+export const COMMUTE_MODES = [
+    "car",
+    "motorcycle",
+    "bus",
+    "train",
+    "tram",
+    "subway",
+    "bike",
+    "walk",
+] as const;
+
+const PUBLIC_TRANSPORT_MODES = ["bus", "train", "tram", "subway"];
+
+export const commuteAnnualKm = (trip: CommuteTrip) =>
+    trip.distanceKm * trip.tripsPerWeek * trip.weeksPerYear;
+
+// Ajoute les kilomètres des trajets réguliers aux champs annuels existants
+export const applyCommutes = (transport: TransportData): TransportData => {
+    let carKm = transport.carKm;
+    let motorcycleKm = transport.motorcycle.km ?? 0;
+    const publicTransportKmByMode = {...transport.publicTransportKmByMode};
+
+    transport.commutes.forEach((trip) => {
+        const annualKm = commuteAnnualKm(trip);
+        if (trip.mode === "car") {
+            carKm += annualKm;
+        } else if (trip.mode === "motorcycle") {
+            motorcycleKm += annualKm;
+        } else if (PUBLIC_TRANSPORT_MODES.includes(trip.mode)) {
+            publicTransportKmByMode[trip.mode] = (publicTransportKmByMode[trip.mode] ?? 0) + annualKm;
+        }
+        // Vélo et marche : pas d'émissions directes
+    });
+
+    return {
+        ...transport,
+        carKm,
+        motorcycle: {
+            ...transport.motorcycle,
+            km: motorcycleKm,
+        },
+        publicTransportKmByMode,
+        commutes: [],
+    };
+};
@@ -0,0 +1,49 @@
+// lib/countries.ts
+// Table des pays : intensité carbone du réseau électrique et moyenne nationale.
+
+import countryTable from "@/data/countries.json";
+import type {EmissionFactor, FactorDataset} from "@/lib/factors";
+
+export interface CountryProfile {
+    code: string;
+    name: string;
+    electricity: EmissionFactor;
+    heatPump: EmissionFactor;
+    nationalAverage: EmissionFactor;
+}
+
+export const COUNTRIES: CountryProfile[] = countryTable.countries;
+
+export const DEFAULT_COUNTRY = "FR";
+
+// Pays connu, ou undefined : pour l'affichage de données enregistrées ou importées
+export const findCountryProfile = (code: string): CountryProfile | undefined =>
+    COUNTRIES.find((candidate) => candidate.code === code);
+
+export const getCountryProfile = (code: string = DEFAULT_COUNTRY): CountryProfile => {
+    const country = findCountryProfile(code);
+    if (!country) {
+        throw new Error(`Unknown country: ${code}`);
+    }
+    return country;
+};
+
+// Remplace les facteurs électriques du jeu de données par ceux du pays choisi
+export const applyCountryFactors = (
+    dataset: FactorDataset,
+    country: CountryProfile
+): FactorDataset => ({
+    ...dataset,
+    factors: {
+        ...dataset.factors,
+        electricity: {
+            ...dataset.factors.electricity,
+            grid: country.electricity,
+        },
+        heating: {
+            ...dataset.factors.heating,
+            electric: country.electricity,
+            heatPump: country.heatPump,
+        },
+    },
+});
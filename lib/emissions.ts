@@ -0,0 +1,229 @@
+// lib/emissions.ts
+// Moteur de calcul de l'empreinte carbone, indépendant de React.
+
+import {distanceBetweenAirports} from "@/lib/airports";
+import {applyCommutes} from "@/lib/commute";
+import {applyCountryFactors, getCountryProfile, type CountryProfile} from "@/lib/countries";
+import {factorValue, getFactorDataset, type FactorDataset} from "@/lib/factors";
+import type {
+    CarbonFootprintResult,
+    EnergyData,
+    FlightLeg,
+    FormData,
+    LifestyleData,
+    TransportData,
+} from "@/lib/types";
+
+// Émissions d'un vol détaillé en kg CO2e, aller-retour compris
+export const calculateFlightLegEmissions = (
+    leg: FlightLeg,
+    radiativeForcing: boolean,
+    dataset: FactorDataset = getFactorDataset()
+) => {
+    const {flightDistance, cabinClass} = dataset.factors;
+    const distance = distanceBetweenAirports(leg.origin, leg.destination);
+    if (distance === undefined) {
+        return 0;
+    }
+
+    // Tranches de distance ADEME : <1000 km, 1000-3500 km, >3500 km
+    const perPassengerKm = distance < 1000
+        ? flightDistance.shortHaul.value
+        : distance <= 3500
+            ? flightDistance.mediumHaul.value
+            : flightDistance.longHaul.value;
+    const classMultiplier = factorValue(cabinClass, leg.cabinClass) || cabinClass.economy.value;
+    const forcingMultiplier = radiativeForcing ? dataset.factors.radiativeForcing.multiplier.value : 1;
+    const trips = leg.returnTrip ? 2 : 1;
+
+    return distance * perPassengerKm * classMultiplier * forcingMultiplier * trips;
+};
+
+export const calculateTransportEmissions = (
+    transportData: TransportData,
+    dataset: FactorDataset = getFactorDataset()
+) => {
+    const {car, motorcycle, publicTransport, flights} = dataset.factors;
+    const transport = applyCommutes(transportData);
+    let emissions = 0;
+
+    // Émissions voiture
+    if (transport.carType && transport.carType !== 'none') {
+        const baseEmission = factorValue(car, transport.carType) ?? NaN;
+        const ageMultiplier = 1 + (Math.min(transport.carAge, 15) * 0.02); // Max 30% d'augmentation
+        const passengerDivisor = Math.max(transport.carPassengers, 1);
+        emissions += (transport.carKm * baseEmission * ageMultiplier) / passengerDivisor;
+    }
+
+    // Émissions deux-roues
+    if (transport.motorcycle.owns && transport.motorcycle.type) {
+        const twoWheelerEmission = factorValue(motorcycle, transport.motorcycle.type) ?? NaN;
+        emissions += (transport.motorcycle.km ?? 0) * twoWheelerEmission;
+    }
+
+    // Émissions transports publics
+    if (transport.publicTransportType && transport.publicTransportType !== 'none') {
+        const ptEmission = factorValue(publicTransport, transport.publicTransportType) ?? NaN;
+        emissions += transport.publicTransportKm * ptEmission;
+    }
+    Object.entries(transport.publicTransportKmByMode).forEach(([mode, km]) => {
+        emissions += km * (factorValue(publicTransport, mode) ?? NaN);
+    });
+
+    // Émissions vols
+    if (transport.detailedFlights) {
+        transport.flightLegs.forEach((leg) => {
+            emissions += calculateFlightLegEmissions(leg, transport.radiativeForcing, dataset);
+        });
+    } else {
+        emissions += transport.flightsShortHaul * flights.shortHaul.value;
+        emissions += transport.flightsMediumHaul * flights.mediumHaul.value;
+        emissions += transport.flightsLongHaul * flights.longHaul.value;
+    }
+
+    return emissions / 1000; // Conversion en tonnes CO2e
+};
+
+// Besoin de chauffage estimé (kWh/an) à partir du type et de la surface du logement,
+// pour une isolation moyenne ; le niveau d'isolation est appliqué ensuite.
+export const estimateHeatingKwh = (
+    energy: EnergyData,
+    dataset: FactorDataset = getFactorDataset()
+) => {
+    const {heatingDemand} = dataset.factors;
+    const demandPerSquareMeter = factorValue(heatingDemand, energy.homeType) ?? heatingDemand.apartment.value;
+    return energy.homeSize * demandPerSquareMeter;
+};
+
+// Les locataires n'ont généralement pas accès à leur consommation de chauffage : elle est estimée
+export const usesHeatingEstimate = (energy: EnergyData) =>
+    energy.estimateHeating || energy.housingStatus === "renter";
+
+export const calculateEnergyEmissions = (
+    energy: EnergyData,
+    dataset: FactorDataset = getFactorDataset()
+) => {
+    const {electricity, heating, energyConversion, insulation} = dataset.factors;
+    let emissions = 0;
+
+    // Électricité (tonnes CO2e par MWh)
+    let electricityEmissions = (energy.electricityKwh / 1000) * electricity.grid.value;
+    if (energy.renewableEnergy && energy.renewablePercentage) {
+        electricityEmissions *= (1 - energy.renewablePercentage / 100);
+    }
+
+    // Conversion et calcul des émissions de chauffage
+    const heatingKwh = usesHeatingEstimate(energy)
+        ? estimateHeatingKwh(energy, dataset)
+        : energy.heatingConsumption * (factorValue(energyConversion, energy.heatingType) || 1);
+
+    const heatingEmissionFactor = factorValue(heating, energy.heatingType) || heating.electric.value;
+
+    const heatingEmissions = (heatingKwh / 1000) * heatingEmissionFactor;
+
+    // Facteurs de correction
+    const insulationMultiplier = factorValue(insulation, energy.insulation) || 1;
+
+    emissions = (electricityEmissions + heatingEmissions) * insulationMultiplier;
+
+    // Répartition de la consommation du foyer entre ses occupants
+    return emissions / Math.max(energy.occupants, 1);
+};
+
+// Chauffages électriques : leur eau chaude est déjà dans la consommation d'électricité déclarée
+const ELECTRIC_HEATING_TYPES = ["electric", "heatPump"];
+
+// L'eau chaude est supposée produite par le système de chauffage du logement (heatingType)
+export const calculateLifestyleEmissions = (
+    lifestyle: LifestyleData,
+    heatingType: string,
+    dataset: FactorDataset = getFactorDataset()
+) => {
+    const {diet, meatMeal, meatFrequency, dietMeatReference, water, heating} = dataset.factors;
+    let emissions = 0;
+
+    // Émissions alimentaires
+    let dietEmission = factorValue(diet, lifestyle.dietType) || diet.omnivore.value;
+
+    // Ajustement selon la fréquence de consommation de viande, par rapport à celle
+    // supposée par le facteur du régime (en repas par semaine)
+    const referenceMeals = factorValue(dietMeatReference, lifestyle.dietType);
+    const declaredMeals = lifestyle.meatFrequency !== undefined
+        ? factorValue(meatFrequency, lifestyle.meatFrequency.toString())
+        : undefined;
+    if (referenceMeals !== undefined && declaredMeals !== undefined) {
+        dietEmission += (declaredMeals - referenceMeals) * 52 * meatMeal.increment.value;
+    }
+
+    // Ajustement nourriture locale
+    const localFoodAdjustment = 1 - (lifestyle.localFoodPercentage * 0.002);
+    emissions += (dietEmission * localFoodAdjustment) / 1000; // Conversion en tonnes
+
+    // Émissions consommation
+    const shoppingEmissions =
+        (lifestyle.shoppingHabits.clothes * 0.1 +
+            lifestyle.shoppingHabits.electronics * 0.2 +
+            lifestyle.shoppingHabits.furniture * 0.15) * 0.01; // Tonnes CO2e
+
+    emissions += shoppingEmissions;
+
+    // Réductions recyclage et compostage
+    if (lifestyle.wasteRecycling) emissions *= 0.9;
+    if (lifestyle.wasteComposting) emissions *= 0.95;
+
+    // Émissions eau : distribution et traitement, puis énergie de l'eau chaude (sauf si
+    // elle est déjà comptée dans l'électricité)
+    const litresPerYear = lifestyle.waterConsumption * 365;
+    emissions += (litresPerYear * water.supply.value) / 1000; // Tonnes CO2e
+    if (!ELECTRIC_HEATING_TYPES.includes(heatingType)) {
+        const hotWaterMwh = (litresPerYear * water.hotShare.value * water.heatingEnergy.value) / 1000;
+        emissions += hotWaterMwh * (factorValue(heating, heatingType) || heating.electric.value);
+    }
+
+    return emissions;
+};
+
+// Comparaison avec les moyennes nationale et mondiale
+export const compareToNationalAverage = (
+    totalEmissions: number,
+    country: CountryProfile = getCountryProfile()
+) => {
+    const nationalAverage = country.nationalAverage.value; // tonnes CO2e par an et par personne
+    const worldAverage = 4.7; // tonnes CO2e par an et par personne dans le monde
+
+    return {
+        percentageFromNational: ((totalEmissions - nationalAverage) / nationalAverage) * 100,
+        percentageFromWorld: ((totalEmissions - worldAverage) / worldAverage) * 100,
+        nationalAverage: nationalAverage,
+        worldAverage: worldAverage
+    };
+};
+
+export const calculateCarbonFootprint = (
+    formData: FormData,
+    dataset: FactorDataset = getFactorDataset()
+): CarbonFootprintResult => {
+    const country = getCountryProfile(formData.country);
+    const countryDataset = applyCountryFactors(dataset, country);
+
+    const transportEmissions = calculateTransportEmissions(formData.transport, countryDataset);
+    const energyEmissions = calculateEnergyEmissions(formData.energy, countryDataset);
+    const lifestyleEmissions = calculateLifestyleEmissions(formData.lifestyle, formData.energy.heatingType, countryDataset);
+
+    const total = transportEmissions + energyEmissions + lifestyleEmissions;
+
+    return {
+        total: total,
+        breakdown: {
+            transport: transportEmissions,
+            energy: energyEmissions,
+            lifestyle: lifestyleEmissions
+        },
+        comparison: compareToNationalAverage(total, country),
+        country: country.code,
+        factorDataset: {
+            id: dataset.id,
+            version: dataset.version
+        }
+    };
+};
@@ -0,0 +1,73 @@
+// lib/factors.ts
+// Jeux de facteurs d'émission versionnés. Chaque résultat enregistre la
+// version du jeu utilisé afin de pouvoir reproduire un calcul passé.
+
+import frDefault2024 from "@/data/factors/fr-default-2024.json";
+
+export interface EmissionFactor {
+    value: number;
+    unit: string;
+    source: string;
+    // Incertitude relative : demi-largeur de l'intervalle à 95 % rapportée à la valeur
+    uncertainty?: number;
+}
+
+export type FactorTable = Record<string, EmissionFactor>;
+
+export interface FactorDataset {
+    id: string;
+    version: string;
+    name: string;
+    validityYear: number;
+    factors: {
+        car: FactorTable;
+        motorcycle: FactorTable;
+        flights: FactorTable;
+        flightDistance: FactorTable;
+        cabinClass: FactorTable;
+        radiativeForcing: FactorTable;
+        publicTransport: FactorTable;
+        diet: FactorTable;
+        meatMeal: FactorTable;
+        meatFrequency: FactorTable;
+        dietMeatReference: FactorTable;
+        water: FactorTable;
+        energyConversion: FactorTable;
+        electricity: FactorTable;
+        heating: FactorTable;
+        insulation: FactorTable;
+        heatingDemand: FactorTable;
+    };
+}
+
+export interface FactorDatasetRef {
+    id: string;
+    version: string;
+}
+
+// Les anciennes versions restent enregistrées ici lorsqu'un nouveau jeu est ajouté
+export const FACTOR_DATASETS: FactorDataset[] = [
+    frDefault2024 as FactorDataset,
+];
+
+export const DEFAULT_FACTOR_DATASET: FactorDatasetRef = {
+    id: "fr-default",
+    version: "2024.1",
+};
+
+export const getFactorDataset = (ref: Partial<FactorDatasetRef> = {}): FactorDataset => {
+    const id = ref.id ?? DEFAULT_FACTOR_DATASET.id;
+    const candidates = FACTOR_DATASETS.filter((dataset) => dataset.id === id);
+    const dataset = ref.version
+        ? candidates.find((candidate) => candidate.version === ref.version)
+        : candidates.sort((a, b) => b.validityYear - a.validityYear)[0];
+
+    if (!dataset) {
+        throw new Error(`Unknown factor dataset: ${id}${ref.version ? `@${ref.version}` : ""}`);
+    }
+    return dataset;
+};
+
+// Valeur d'un facteur, ou undefined si la clé n'existe pas dans la table
+export const factorValue = (table: FactorTable, key: string): number | undefined =>
+    table[key]?.value;
@@ -0,0 +1,51 @@
+// lib/form-data.ts
+
+import {DEFAULT_COUNTRY} from "@/lib/countries";
+import type {FormData} from "@/lib/types";
+
+export const initialFormData: FormData = {
+    country: DEFAULT_COUNTRY,
+    transport: {
+        carType: "none",
+        carKm: 0,
+        carAge: 0,
+        carPassengers: 1,
+        publicTransportType: "",
+        publicTransportKm: 0,
+        publicTransportKmByMode: {},
+        commutes: [],
+        flightsShortHaul: 0,
+        flightsMediumHaul: 0,
+        flightsLongHaul: 0,
+        detailedFlights: false,
+        flightLegs: [],
+        radiativeForcing: false,
+        motorcycle: {
+            owns: false,
+        },
+    },
+    energy: {
+        homeType: "",
+        housingStatus: "owner",
+        homeSize: 0,
+        occupants: 1,
+        electricityKwh: 0,
+        heatingType: "",
+        heatingConsumption: 0,
+        estimateHeating: false,
+        renewableEnergy: false,
+        insulation: "medium",
+    },
+    lifestyle: {
+        dietType: "",
+        localFoodPercentage: 0,
+        wasteRecycling: false,
+        wasteComposting: false,
+        shoppingHabits: {
+            clothes: 50,
+            electronics: 50,
+            furniture: 50,
+        },
+        waterConsumption: 0,
+    },
+};
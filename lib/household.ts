@@ -0,0 +1,199 @@
+// lib/household.ts
+// Mode foyer : le logement et les voitures sont partagés, chaque membre garde
+// ses déplacements personnels et son mode de vie. L'énergie du logement est
+// répartie à parts égales, chaque voiture selon la part d'utilisation déclarée.
+
+import {applyCountryFactors, getCountryProfile} from "@/lib/countries";
+import {
+    calculateEnergyEmissions,
+    calculateLifestyleEmissions,
+    calculateTransportEmissions,
+    compareToNationalAverage,
+} from "@/lib/emissions";
+import {getFactorDataset, type FactorDataset} from "@/lib/factors";
+import {initialFormData} from "@/lib/form-data";
+import type {TranslationParams} from "@/lib/i18n";
+import {generateId} from "@/lib/storage";
+import type {
+    FormData,
+    HouseholdCar,
+    HouseholdData,
+    HouseholdFootprintResult,
+    HouseholdMember,
+    MemberFootprint,
+} from "@/lib/types";
+import {
+    HOUSEHOLD_CARS_SCHEMA,
+    issuesUnder,
+    validateFormData,
+    validateValues,
+    type ValidationIssue,
+} from "@/lib/validation";
+import {
+    HOUSEHOLD_MEMBER_SUB_STEPS,
+    HOUSEHOLD_SHARED_SUB_STEPS,
+    isSubStepVisible,
+    subStepPaths,
+    type WizardSubStep,
+} from "@/lib/wizard";
+
+export const createMember = (name = ""): HouseholdMember => ({
+    id: generateId(),
+    name,
+    transport: initialFormData.transport,
+    lifestyle: initialFormData.lifestyle,
+});
+
+export const createCar = (): HouseholdCar => ({
+    id: generateId(),
+    carType: "",
+    carKm: 0,
+    carAge: 0,
+    usage: {},
+});
+
+export const createHousehold = (): HouseholdData => ({
+    country: initialFormData.country,
+    energy: initialFormData.energy,
+    cars: [],
+    members: [createMember(), createMember()],
+});
+
+// Réponses vues par un membre, pour réutiliser les sous-étapes et la validation du questionnaire
+export const memberFormData = (household: HouseholdData, memberIndex: number): FormData => {
+    const member = household.members[memberIndex] ?? household.members[0] ?? createMember();
+    return {
+        country: household.country,
+        transport: {...member.transport, carType: "none"},
+        energy: {...household.energy, occupants: Math.max(household.members.length, 1)},
+        lifestyle: member.lifestyle,
+    };
+};
+
+export const applyMemberFormData = (
+    household: HouseholdData,
+    memberIndex: number,
+    formData: FormData
+): HouseholdData => ({
+    ...household,
+    country: formData.country,
+    energy: formData.energy,
+    members: household.members.map((member, index) =>
+        index === memberIndex
+            ? {...member, transport: formData.transport, lifestyle: formData.lifestyle}
+            : member
+    ),
+});
+
+// Part de la voiture attribuée à chaque membre, dans l'ordre des membres
+export const carUsageShares = (car: HouseholdCar, members: HouseholdMember[]) => {
+    const weights = members.map((member) => Math.max(car.usage[member.id] ?? 0, 0));
+    const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+    return totalWeight > 0
+        ? weights.map((weight) => weight / totalWeight)
+        : members.map(() => 1 / members.length);
+};
+
+export const calculateHouseholdFootprint = (
+    household: HouseholdData,
+    dataset: FactorDataset = getFactorDataset()
+): HouseholdFootprintResult => {
+    const country = getCountryProfile(household.country);
+    const countryDataset = applyCountryFactors(dataset, country);
+    const {members} = household;
+
+    // Consommation de tout le logement, avant répartition entre les membres
+    const homeEnergy = calculateEnergyEmissions({...household.energy, occupants: 1}, countryDataset);
+    const carEmissions = household.cars.map((car) => ({
+        emissions: calculateTransportEmissions({
+            ...initialFormData.transport,
+            carType: car.carType,
+            carKm: car.carKm,
+            carAge: car.carAge,
+            carPassengers: 1,
+        }, countryDataset),
+        shares: carUsageShares(car, members),
+    }));
+
+    const memberFootprints: MemberFootprint[] = members.map((member, index) => {
+        const carShare = carEmissions.reduce((total, car) => total + car.emissions * car.shares[index], 0);
+        const breakdown = {
+            transport: calculateTransportEmissions({...member.transport, carType: "none"}, countryDataset) + carShare,
+            energy: homeEnergy / members.length,
+            lifestyle: calculateLifestyleEmissions(member.lifestyle, household.energy.heatingType, countryDataset),
+        };
+        return {
+            id: member.id,
+            name: member.name,
+            total: breakdown.transport + breakdown.energy + breakdown.lifestyle,
+            breakdown,
+            carShare,
+        };
+    });
+
+    const sum = (value: (member: MemberFootprint) => number) =>
+        memberFootprints.reduce((total, member) => total + value(member), 0);
+    const total = sum((member) => member.total);
+
+    return {
+        total,
+        breakdown: {
+            transport: sum((member) => member.breakdown.transport),
+            energy: sum((member) => member.breakdown.energy),
+            lifestyle: sum((member) => member.breakdown.lifestyle),
+        },
+        members: memberFootprints,
+        comparison: compareToNationalAverage(total / Math.max(members.length, 1), country),
+        country: country.code,
+        factorDataset: {
+            id: dataset.id,
+            version: dataset.version,
+        },
+    };
+};
+
+// Pages du questionnaire du foyer : membres, logement partagé, voitures, puis questions de chaque membre
+export type HouseholdPage =
+    | { kind: "members" }
+    | { kind: "shared"; subStep: WizardSubStep }
+    | { kind: "cars" }
+    | { kind: "member"; memberIndex: number; subStep: WizardSubStep };
+
+export const householdPages = (household: HouseholdData): HouseholdPage[] => {
+    const sharedView = memberFormData(household, 0);
+    return [
+        {kind: "members"},
+        ...HOUSEHOLD_SHARED_SUB_STEPS
+            .filter((subStep) => isSubStepVisible(subStep, sharedView))
+            .map((subStep): HouseholdPage => ({kind: "shared", subStep})),
+        {kind: "cars"},
+        ...household.members.flatMap((_, memberIndex) =>
+            HOUSEHOLD_MEMBER_SUB_STEPS
+                .filter((subStep) => isSubStepVisible(subStep, memberFormData(household, memberIndex)))
+                .map((subStep): HouseholdPage => ({kind: "member", memberIndex, subStep}))
+        ),
+    ];
+};
+
+export const householdPageIssues = (household: HouseholdData, page: HouseholdPage): ValidationIssue[] => {
+    switch (page.kind) {
+        case "members":
+            return [];
+        case "cars":
+            return validateValues(household, HOUSEHOLD_CARS_SCHEMA);
+        case "shared":
+            return issuesUnder(validateFormData(memberFormData(household, 0)), subStepPaths(page.subStep));
+        case "member":
+            return issuesUnder(
+                validateFormData(memberFormData(household, page.memberIndex)),
+                subStepPaths(page.subStep)
+            );
+    }
+};
+
+// Nom affiché d'un membre, numéroté s'il n'a pas été renseigné
+export const memberLabel = (
+    member: Pick<HouseholdMember, "name">,
+    memberIndex: number,
+    t: (key: string, params?: TranslationParams) => string
+) => member.name.trim() || t("household.memberFallback", {number: memberIndex + 1});
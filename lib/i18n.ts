@@ -0,0 +1,67 @@
+// lib/i18n.ts
+// Catalogues de messages (messages/*.json) et formatage des nombres et dates
+// selon la langue choisie. Les clés sont des chemins pointés ("results.title").
+
+import en from "@/messages/en.json";
+import fr from "@/messages/fr.json";
+
+export const LOCALES = ["fr", "en"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "fr";
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+    fr: "Français",
+    en: "English",
+};
+
+interface MessageCatalogue {
+    [key: string]: string | MessageCatalogue;
+}
+
+export type TranslationParams = Record<string, string | number>;
+
+const CATALOGUES: Record<Locale, MessageCatalogue> = {fr, en};
+
+export const isLocale = (value: unknown): value is Locale =>
+    typeof value === "string" && (LOCALES as readonly string[]).includes(value);
+
+const lookup = (catalogue: MessageCatalogue, key: string): string | MessageCatalogue | undefined =>
+    key.split(".").reduce<string | MessageCatalogue | undefined>(
+        (node, part) => (typeof node === "object" ? node[part] : undefined),
+        catalogue
+    );
+
+// Message traduit, avec repli sur le français puis sur la clé elle-même.
+// Un message sous forme d'objet est choisi selon les règles de pluriel de params.count.
+export const translate = (locale: Locale, key: string, params: TranslationParams = {}): string => {
+    let message = lookup(CATALOGUES[locale], key) ?? lookup(CATALOGUES[DEFAULT_LOCALE], key);
+    if (typeof message === "object" && typeof params.count === "number") {
+        const category = new Intl.PluralRules(locale).select(params.count);
+        message = message[category] ?? message.other;
+    }
+    if (typeof message !== "string") {
+        return key;
+    }
+    return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        params[name] !== undefined ? String(params[name]) : placeholder);
+};
+
+export const formatNumber = (locale: Locale, value: number, fractionDigits = 0) =>
+    new Intl.NumberFormat(locale, {
+        minimumFractionDigits: fractionDigits,
+        maximumFractionDigits: fractionDigits,
+    }).format(value);
+
+export const formatDate = (locale: Locale, date: string | Date, options?: Intl.DateTimeFormatOptions) =>
+    new Intl.DateTimeFormat(locale, options).format(new Date(date));
+
+// Nom du pays dans la langue choisie, à partir de son code ISO
+export const formatCountryName = (locale: Locale, code: string, fallback: string) => {
+    try {
+        return new Intl.DisplayNames([locale], {type: "region"}).of(code) ?? fallback;
+    } catch {
+        return fallback;
+    }
+};
@@ -0,0 +1,407 @@
+// lib/json-schema.ts
+// Schémas JSON (draft 2020-12) du contrat de l'application : FormData, le
+// résultat et les réponses des routes API. Chaque schéma est construit contre
+// l'interface qu'il décrit (lib/types.ts) : un champ ajouté, retiré ou dont le
+// type change sans que le schéma suive ne compile pas. Les valeurs possibles
+// et les bornes des réponses viennent des règles de lib/validation.ts.
+
+import type {FactorDatasetRef} from "@/lib/factors";
+import {API_OPTIONS} from "@/lib/options";
+import type {IssueDetail, ProblemDetails} from "@/lib/problem";
+import type {
+    CarbonFootprintResult,
+    CommuteTrip,
+    EnergyData,
+    FlightLeg,
+    FootprintRequest,
+    FootprintResponse,
+    FootprintUncertainty,
+    FormData,
+    Interval,
+    LifestyleData,
+    RecommendationAction,
+    TeamAggregate,
+    TeamCreated,
+    TeamDistributionBucket,
+    TeamSubmissionReceipt,
+    TeamSummary,
+    TransportData,
+} from "@/lib/types";
+import {ESTIMABLE_PATHS} from "@/lib/uncertainty";
+import {FORM_DATA_SCHEMA, ISSUE_CODES, ISSUE_SEVERITIES, type FieldRule} from "@/lib/validation";
+
+export type JsonSchema = Record<string, unknown>;
+
+// Schéma d'une valeur de type T ; T ne sert qu'à la vérification à la compilation
+export interface Schema<T> {
+    readonly json: JsonSchema;
+    readonly value?: T;
+}
+
+interface OptionalField<T> {
+    readonly optional: Schema<T>;
+}
+
+// Un schéma par champ de T, les champs facultatifs passant par optional()
+type Fields<T> = {
+    [K in keyof T]-?: undefined extends T[K] ? OptionalField<Exclude<T[K], undefined>> : Schema<T[K]>;
+};
+
+const schema = <T>(json: JsonSchema): Schema<T> => ({json});
+
+const string = () => schema<string>({type: "string"});
+const number = () => schema<number>({type: "number"});
+const boolean = () => schema<boolean>({type: "boolean"});
+const array = <T>(items: Schema<T>) => schema<T[]>({type: "array", items: items.json});
+const record = <T>(values: Schema<T>) => schema<Record<string, T>>({type: "object", additionalProperties: values.json});
+const optional = <T>(field: Schema<T>): OptionalField<T> => ({optional: field});
+const enumeration = <T extends string>(values: readonly T[]) => schema<T>({type: "string", enum: values});
+const nullable = <T>(base: Schema<T>) => schema<T | null>({...base.json, type: [base.json.type, "null"]});
+
+const object = <T>(fields: Fields<T>): Schema<T> => {
+    const entries = Object.entries(fields) as [string, Schema<unknown> | OptionalField<unknown>][];
+    return schema<T>({
+        type: "object",
+        properties: Object.fromEntries(
+            entries.map(([key, field]) => [key, "optional" in field ? field.optional.json : field.json])
+        ),
+        required: entries.filter(([, field]) => !("optional" in field)).map(([key]) => key),
+    });
+};
+
+const withKeywords = <T>(base: Schema<T>, keywords: JsonSchema) => schema<T>({...base.json, ...keywords});
+
+// Schémas nommés : référencés par "#/$defs/<nom>" (components/schemas dans OpenAPI)
+const DEFINITIONS: Record<string, JsonSchema> = {};
+
+const named = <T>(name: string, definition: Schema<T>): Schema<T> => {
+    DEFINITIONS[name] = definition.json;
+    return schema<T>({$ref: `#/$defs/${name}`});
+};
+
+const ruleKeywords = (rule: FieldRule): JsonSchema => {
+    switch (rule.type) {
+        case "choice":
+            return {enum: rule.options};
+        case "airport":
+            return {pattern: "^[A-Za-z]{3}$", description: "IATA airport code"};
+        case "boolean":
+        case "key":
+        case "ignored":
+        case "missing":
+            return {};
+        case "number":
+            return {
+                ...(rule.integer ? {type: "integer"} : {}),
+                ...(rule.min !== undefined ? {minimum: rule.min} : {}),
+                ...(rule.max !== undefined ? {maximum: rule.max} : {}),
+            };
+    }
+};
+
+const applyRule = (json: JsonSchema, parts: string[], rule: FieldRule) => {
+    const [part, ...rest] = parts;
+    // Les clés d'un dictionnaire se décrivent sur le dictionnaire lui-même
+    if (rule.type === "key" && part === "*" && rest.length === 0) {
+        json.propertyNames = {enum: rule.options};
+        return;
+    }
+    const child = (part === "*"
+        ? json.items ?? json.additionalProperties
+        : (json.properties as Record<string, JsonSchema> | undefined)?.[part]) as JsonSchema | undefined;
+    if (!child) {
+        return;
+    }
+    if (rest.length > 0) {
+        applyRule(child, rest, rule);
+    } else {
+        Object.assign(child, ruleKeywords(rule));
+    }
+};
+
+// Variante d'un schéma dont les champs peuvent être omis, pour un corps de requête complété par
+// les valeurs par défaut. Les éléments des listes ne sont pas complétés : ils restent entiers.
+const partial = (json: JsonSchema): JsonSchema => {
+    if (typeof json.$ref === "string") {
+        const name = json.$ref.replace("#/$defs/", "");
+        DEFINITIONS[`Partial${name}`] ??= partial(DEFINITIONS[name]);
+        return {$ref: `#/$defs/Partial${name}`};
+    }
+    if (!json.properties) {
+        return json;
+    }
+    const properties = Object.entries(json.properties as Record<string, JsonSchema>)
+        .map(([key, property]) => [key, partial(property)]);
+    return {
+        ...Object.fromEntries(Object.entries(json).filter(([keyword]) => keyword !== "required")),
+        properties: Object.fromEntries(properties),
+    };
+};
+
+// Partie de FormData complétée par les règles de validation de ses champs (prefix : "transport", "energy"...)
+const constrained = <T>(definition: Schema<T>, prefix = ""): Schema<T> => {
+    FORM_DATA_SCHEMA
+        .filter((rule) => !prefix || rule.path.startsWith(`${prefix}.`))
+        .forEach((rule) => applyRule(definition.json, rule.path.slice(prefix ? prefix.length + 1 : 0).split("."), rule));
+    return definition;
+};
+
+const FACTOR_DATASET_REF = named("FactorDatasetRef", object<FactorDatasetRef>({
+    id: string(),
+    version: string(),
+}));
+
+const TRANSPORT_DATA = named("TransportData", constrained(object<TransportData>({
+    carType: string(),
+    carKm: number(),
+    carAge: number(),
+    carPassengers: number(),
+    publicTransportType: string(),
+    publicTransportKm: number(),
+    publicTransportKmByMode: record(number()),
+    commutes: array(object<CommuteTrip>({
+        mode: string(),
+        distanceKm: number(),
+        tripsPerWeek: number(),
+        weeksPerYear: number(),
+    })),
+    flightsShortHaul: number(),
+    flightsMediumHaul: number(),
+    flightsLongHaul: number(),
+    detailedFlights: boolean(),
+    flightLegs: array(object<FlightLeg>({
+        origin: string(),
+        destination: string(),
+        cabinClass: string(),
+        returnTrip: boolean(),
+    })),
+    radiativeForcing: boolean(),
+    motorcycle: object<TransportData["motorcycle"]>({
+        owns: boolean(),
+        type: optional(string()),
+        km: optional(number()),
+    }),
+}), "transport"));
+
+const ENERGY_DATA = named("EnergyData", constrained(object<EnergyData>({
+    homeType: string(),
+    housingStatus: string(),
+    homeSize: number(),
+    occupants: number(),
+    electricityKwh: number(),
+    heatingType: string(),
+    heatingConsumption: number(),
+    estimateHeating: boolean(),
+    renewableEnergy: boolean(),
+    renewablePercentage: optional(number()),
+    insulation: string(),
+}), "energy"));
+
+const LIFESTYLE_DATA = named("LifestyleData", constrained(object<LifestyleData>({
+    dietType: string(),
+    meatFrequency: optional(number()),
+    localFoodPercentage: number(),
+    wasteRecycling: boolean(),
+    wasteComposting: boolean(),
+    shoppingHabits: object<LifestyleData["shoppingHabits"]>({
+        clothes: number(),
+        electronics: number(),
+        furniture: number(),
+    }),
+    waterConsumption: number(),
+}), "lifestyle"));
+
+const FORM_DATA = named("FormData", constrained(object<FormData>({
+    country: string(),
+    transport: TRANSPORT_DATA,
+    energy: ENERGY_DATA,
+    lifestyle: LIFESTYLE_DATA,
+})));
+
+// Corps de POST /api/footprint : FormData, dont les champs absents prennent leur valeur par
+// défaut, et la liste facultative des réponses estimées
+const FOOTPRINT_REQUEST = named("FootprintRequest", schema<FootprintRequest>({
+    allOf: [
+        partial(FORM_DATA.json),
+        object<Pick<FootprintRequest, "estimatedPaths">>({
+            estimatedPaths: optional(withKeywords(array(enumeration(ESTIMABLE_PATHS)), {
+                description: "Numeric answers that are estimates; they widen the confidence intervals",
+            })),
+        }).json,
+    ],
+}));
+
+const BREAKDOWN = object<CarbonFootprintResult["breakdown"]>({
+    transport: number(),
+    energy: number(),
+    lifestyle: number(),
+});
+
+const CARBON_FOOTPRINT_RESULT = named("CarbonFootprintResult", object<CarbonFootprintResult>({
+    total: withKeywords(number(), {description: "Tonnes CO2e per year"}),
+    breakdown: BREAKDOWN,
+    comparison: object<CarbonFootprintResult["comparison"]>({
+        percentageFromNational: number(),
+        percentageFromWorld: number(),
+        nationalAverage: number(),
+        worldAverage: number(),
+    }),
+    country: string(),
+    factorDataset: FACTOR_DATASET_REF,
+}));
+
+const INTERVAL = named("Interval", object<Interval>({
+    low: number(),
+    high: number(),
+}));
+
+const FOOTPRINT_UNCERTAINTY = named("FootprintUncertainty", object<FootprintUncertainty>({
+    confidence: withKeywords(number(), {description: "Confidence level of the intervals, 0.95 for 95 %"}),
+    samples: withKeywords(number(), {type: "integer"}),
+    total: INTERVAL,
+    breakdown: object<FootprintUncertainty["breakdown"]>({
+        transport: INTERVAL,
+        energy: INTERVAL,
+        lifestyle: INTERVAL,
+    }),
+}));
+
+const RECOMMENDATION_ACTION = named("RecommendationAction", object<RecommendationAction>({
+    id: string(),
+    category: string(),
+    title: string(),
+    description: string(),
+    effort: string(),
+    cost: string(),
+    savings: withKeywords(number(), {description: "Tonnes CO2e saved per year"}),
+}));
+
+const ISSUE_DETAIL = named("IssueDetail", object<IssueDetail>({
+    path: string(),
+    severity: enumeration(ISSUE_SEVERITIES),
+    code: enumeration(ISSUE_CODES),
+    params: optional(record(number())),
+    message: string(),
+}));
+
+const FOOTPRINT_RESPONSE = named("FootprintResponse", object<FootprintResponse>({
+    result: CARBON_FOOTPRINT_RESULT,
+    recommendations: array(RECOMMENDATION_ACTION),
+    factorDataset: FACTOR_DATASET_REF,
+    uncertainty: FOOTPRINT_UNCERTAINTY,
+    warnings: array(ISSUE_DETAIL),
+}));
+
+type ProblemBody = Pick<ProblemDetails, "type" | "title" | "status" | "detail"> & { errors?: IssueDetail[] };
+
+const PROBLEM_DETAILS = named("ProblemDetails", object<ProblemBody>({
+    type: string(),
+    title: string(),
+    status: number(),
+    detail: optional(string()),
+    errors: optional(array(ISSUE_DETAIL)),
+}));
+
+// Construit à partir des listes publiées, il les suit sans mise à jour
+const OPTIONS = named("Options", schema<typeof API_OPTIONS>({
+    type: "object",
+    properties: Object.fromEntries(Object.entries(API_OPTIONS).map(([key, values]) => [
+        key,
+        key === "factorDataset"
+            ? array(FACTOR_DATASET_REF).json
+            : {type: "array", items: {enum: values}},
+    ])),
+    required: Object.keys(API_OPTIONS),
+}));
+
+const TEAM_DISTRIBUTION_BUCKET = object<TeamDistributionBucket>({
+    from: number(),
+    to: nullable(number()),
+    count: withKeywords(number(), {type: "integer"}),
+});
+
+const TEAM_SUMMARY = named("TeamSummary", object<TeamSummary>({
+    code: string(),
+    name: string(),
+    participants: withKeywords(number(), {type: "integer"}),
+    minGroupSize: withKeywords(number(), {type: "integer"}),
+    aggregate: nullable(object<TeamAggregate>({
+        participants: withKeywords(number(), {type: "integer"}),
+        median: number(),
+        mean: number(),
+        sectorAverages: BREAKDOWN,
+        distribution: array(TEAM_DISTRIBUTION_BUCKET),
+    })),
+}));
+
+const TEAM_CREATED = named("TeamCreated", object<TeamCreated>({
+    code: string(),
+    name: string(),
+    adminKey: string(),
+}));
+
+const TEAM_SUBMISSION_RECEIPT = named("TeamSubmissionReceipt", object<TeamSubmissionReceipt>({
+    name: string(),
+    participants: withKeywords(number(), {type: "integer"}),
+}));
+
+// Schémas publiés sous /api/schemas/<nom>
+export const PUBLISHED_SCHEMAS = {
+    "form-data": FORM_DATA,
+    "footprint-request": FOOTPRINT_REQUEST,
+    "carbon-footprint-result": CARBON_FOOTPRINT_RESULT,
+    "footprint-response": FOOTPRINT_RESPONSE,
+    "problem-details": PROBLEM_DETAILS,
+    "options": OPTIONS,
+};
+
+export type PublishedSchemaName = keyof typeof PUBLISHED_SCHEMAS;
+
+export const isPublishedSchema = (name: string): name is PublishedSchemaName => name in PUBLISHED_SCHEMAS;
+
+// Schémas utilisés par la description OpenAPI (lib/openapi.ts)
+export const API_SCHEMAS = {
+    FORM_DATA,
+    FOOTPRINT_REQUEST,
+    CARBON_FOOTPRINT_RESULT,
+    FOOTPRINT_RESPONSE,
+    PROBLEM_DETAILS,
+    OPTIONS,
+    TEAM_SUMMARY,
+    TEAM_CREATED,
+    TEAM_SUBMISSION_RECEIPT,
+};
+
+// Noms des schémas référencés, directement ou non, par json
+const referencedDefinitions = (json: unknown, found = new Set<string>()): Set<string> => {
+    if (Array.isArray(json)) {
+        json.forEach((item) => referencedDefinitions(item, found));
+    } else if (typeof json === "object" && json !== null) {
+        Object.entries(json).forEach(([key, value]) => {
+            const name = key === "$ref" && typeof value === "string" ? value.replace("#/$defs/", "") : null;
+            if (name && !found.has(name)) {
+                found.add(name);
+                referencedDefinitions(DEFINITIONS[name], found);
+            } else {
+                referencedDefinitions(value, found);
+            }
+        });
+    }
+    return found;
+};
+
+// Document JSON Schema autonome, avec les définitions dont il dépend
+export const jsonSchemaDocument = (name: PublishedSchemaName) => {
+    const root = PUBLISHED_SCHEMAS[name].json;
+    return {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        $id: `/api/schemas/${name}`,
+        ...root,
+        $defs: Object.fromEntries(
+            Array.from(referencedDefinitions(root)).sort().map((definition) => [definition, DEFINITIONS[definition]])
+        ),
+    };
+};
+
+// Toutes les définitions, pour components/schemas
+export const schemaDefinitions = () => ({...DEFINITIONS});
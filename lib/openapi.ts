@@ -0,0 +1,155 @@
+// lib/openapi.ts
+// Description OpenAPI 3.1 des routes API, construite sur les schémas de
+// lib/json-schema.ts : une route ou un schéma modifié se reflète ici sans
+// autre mise à jour.
+
+import {DEFAULT_LOCALE, LOCALES} from "@/lib/i18n";
+import {API_SCHEMAS, PUBLISHED_SCHEMAS, schemaDefinitions, type Schema} from "@/lib/json-schema";
+import {PROBLEM_TYPES} from "@/lib/problem";
+import {MAX_TEAM_NAME_LENGTH} from "@/lib/teams";
+
+export const OPENAPI_VERSION = "1.0.0";
+
+// Les références "#/$defs/<nom>" des schémas deviennent "#/components/schemas/<nom>"
+const toComponents = <T>(value: T): T =>
+    JSON.parse(JSON.stringify(value).split("#/$defs/").join("#/components/schemas/"));
+
+const json = (schema: Schema<unknown>) => ({"application/json": {schema: schema.json}});
+
+const response = (description: string, schema: Schema<unknown>) => ({description, content: json(schema)});
+
+const problem = (description: string) => ({
+    description,
+    content: {"application/problem+json": {schema: API_SCHEMAS.PROBLEM_DETAILS.json}},
+});
+
+const teamCodeParameter = {
+    name: "code",
+    in: "path",
+    required: true,
+    schema: {type: "string"},
+    description: "Team code shared with the team members",
+};
+
+export const openApiDocument = () => toComponents({
+    openapi: "3.1.0",
+    info: {
+        title: "Carbone API",
+        version: OPENAPI_VERSION,
+        description: "Carbon footprint calculation, accepted answer values and anonymous team aggregation.",
+    },
+    paths: {
+        "/api/footprint": {
+            post: {
+                operationId: "computeFootprint",
+                summary: "Compute a carbon footprint from a FormData document",
+                parameters: [{
+                    name: "locale",
+                    in: "query",
+                    required: false,
+                    schema: {type: "string", enum: LOCALES, default: DEFAULT_LOCALE},
+                    description: "Language of the recommendations and validation messages",
+                }],
+                requestBody: {
+                    required: true,
+                    description: "Answers; omitted fields take their default value",
+                    content: json(API_SCHEMAS.FOOTPRINT_REQUEST),
+                },
+                responses: {
+                    200: response("Result, recommendations and factor dataset", API_SCHEMAS.FOOTPRINT_RESPONSE),
+                    400: problem(`${PROBLEM_TYPES.invalidJson} or ${PROBLEM_TYPES.unsupportedLocale}`),
+                    422: problem(`${PROBLEM_TYPES.validation}: the failing fields are listed in errors`),
+                },
+            },
+        },
+        "/api/options": {
+            get: {
+                operationId: "listOptions",
+                summary: "List the accepted values of every choice field",
+                responses: {
+                    200: response("Accepted values by field", API_SCHEMAS.OPTIONS),
+                },
+            },
+        },
+        "/api/teams": {
+            post: {
+                operationId: "createTeam",
+                summary: "Create a team",
+                requestBody: {
+                    required: true,
+                    content: {
+                        "application/json": {
+                            schema: {
+                                type: "object",
+                                properties: {name: {type: "string", maxLength: MAX_TEAM_NAME_LENGTH}},
+                                required: ["name"],
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    201: response("Team code and admin key (shown only once)", API_SCHEMAS.TEAM_CREATED),
+                    400: problem(PROBLEM_TYPES.invalidTeamName),
+                },
+            },
+        },
+        "/api/teams/{code}": {
+            get: {
+                operationId: "getTeamSummary",
+                summary: "Team participation and aggregates, for the team admin",
+                parameters: [teamCodeParameter],
+                security: [{teamAdminKey: []}],
+                responses: {
+                    200: response("Aggregates are null below the minimum group size", API_SCHEMAS.TEAM_SUMMARY),
+                    401: problem(PROBLEM_TYPES.unauthorized),
+                },
+            },
+        },
+        "/api/teams/{code}/submissions": {
+            post: {
+                operationId: "submitToTeam",
+                summary: "Submit a result anonymously; only its breakdown is stored",
+                parameters: [teamCodeParameter],
+                requestBody: {
+                    required: true,
+                    content: {
+                        "application/json": {
+                            schema: {
+                                type: "object",
+                                properties: {result: API_SCHEMAS.CARBON_FOOTPRINT_RESULT.json},
+                                required: ["result"],
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    201: response("Participation count after the submission", API_SCHEMAS.TEAM_SUBMISSION_RECEIPT),
+                    400: problem(PROBLEM_TYPES.invalidResult),
+                    404: problem(PROBLEM_TYPES.teamNotFound),
+                },
+            },
+        },
+        "/api/schemas/{name}": {
+            get: {
+                operationId: "getJsonSchema",
+                summary: "Standalone JSON Schema (draft 2020-12)",
+                parameters: [{
+                    name: "name",
+                    in: "path",
+                    required: true,
+                    schema: {type: "string", enum: Object.keys(PUBLISHED_SCHEMAS)},
+                }],
+                responses: {
+                    200: {description: "JSON Schema document", content: {"application/schema+json": {schema: {type: "object"}}}},
+                    404: problem(PROBLEM_TYPES.schemaNotFound),
+                },
+            },
+        },
+    },
+    components: {
+        schemas: schemaDefinitions(),
+        securitySchemes: {
+            teamAdminKey: {type: "http", scheme: "bearer", description: "Admin key returned when the team was created"},
+        },
+    },
+});
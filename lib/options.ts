@@ -0,0 +1,49 @@
+// lib/options.ts
+// Valeurs possibles des réponses à choix. Les libellés sont dans les
+// catalogues de messages, sous "options.<liste>.<valeur>".
+
+import {COMMUTE_MODES} from "@/lib/commute";
+import {COUNTRIES} from "@/lib/countries";
+import {FACTOR_DATASETS} from "@/lib/factors";
+import {LOCALES} from "@/lib/i18n";
+
+export const CAR_TYPES = ["none", "electric", "hybrid", "petrol", "diesel"] as const;
+
+export const PASSENGER_COUNTS = [1, 2, 3, 4, 5] as const;
+
+export const TWO_WHEELER_TYPES = ["moped", "motorcycle", "electricScooter", "ebike"] as const;
+
+export const PUBLIC_TRANSPORT_TYPES = ["none", "bus", "train", "tram", "subway"] as const;
+
+export const CABIN_CLASSES = ["economy", "premiumEconomy", "business", "first"] as const;
+
+export const HOME_TYPES = ["apartment", "house", "studio", "loft"] as const;
+
+export const HOUSING_STATUSES = ["owner", "renter"] as const;
+
+export const INSULATION_LEVELS = ["poor", "medium", "good", "excellent"] as const;
+
+export const HEATING_TYPES = ["electric", "gas", "oil", "heatPump"] as const;
+
+export const DIET_TYPES = ["vegan", "vegetarian", "pescatarian", "flexitarian", "omnivore"] as const;
+
+export const MEAT_FREQUENCIES = [1, 2, 3, 4] as const;
+
+// Valeurs publiées par GET /api/options, par nom de champ
+export const API_OPTIONS = {
+    country: COUNTRIES.map((country) => country.code),
+    carType: CAR_TYPES,
+    carPassengers: PASSENGER_COUNTS,
+    twoWheelerType: TWO_WHEELER_TYPES,
+    publicTransportType: PUBLIC_TRANSPORT_TYPES,
+    commuteMode: COMMUTE_MODES,
+    cabinClass: CABIN_CLASSES,
+    homeType: HOME_TYPES,
+    housingStatus: HOUSING_STATUSES,
+    insulation: INSULATION_LEVELS,
+    heatingType: HEATING_TYPES,
+    dietType: DIET_TYPES,
+    meatFrequency: MEAT_FREQUENCIES,
+    locale: LOCALES,
+    factorDataset: FACTOR_DATASETS.map(({id, version}) => ({id, version})),
+};
@@ -0,0 +1,124 @@
+// lib/plan.ts
+// Plan de réduction personnel : actions choisies avec une date cible,
+// projection de l'empreinte dans le temps et points d'étape.
+
+import {applyCommutes} from "@/lib/commute";
+import type {FactorDatasetRef} from "@/lib/factors";
+import {recommendationChanges} from "@/lib/recommendations";
+import {calculateScenario, type ScenarioChanges} from "@/lib/scenarios";
+import type {TrendPoint} from "@/lib/trends";
+import type {FormData, RecommendationAction} from "@/lib/types";
+
+export interface PlanItem {
+    recommendationId: string;
+    category: string;
+    targetDate: string;
+    changes: ScenarioChanges;
+}
+
+export interface PlanCheckIn {
+    date: string;
+    completedIds: string[];
+}
+
+export interface ReductionPlan {
+    createdAt: string;
+    baseline: FormData;
+    factorDataset: FactorDatasetRef;
+    items: PlanItem[];
+    checkIns: PlanCheckIn[];
+}
+
+export interface PlanProgress {
+    baselineTotal: number;
+    targetTotal: number;
+    achievedTotal: number;
+    plannedSavings: number;
+    achievedSavings: number;
+    percentage: number;
+}
+
+// Actions dans l'ordre chronologique de leurs dates cibles
+export const itemsByDate = (items: PlanItem[]): PlanItem[] =>
+    [...items].sort((a, b) => a.targetDate.localeCompare(b.targetDate));
+
+export const createPlan = (
+    baseline: FormData,
+    factorDataset: FactorDatasetRef,
+    selections: { action: RecommendationAction; targetDate: string }[]
+): ReductionPlan => ({
+    createdAt: new Date().toISOString(),
+    baseline,
+    factorDataset,
+    items: itemsByDate(selections.map(({action, targetDate}) => ({
+        recommendationId: action.id,
+        category: action.category,
+        targetDate,
+        changes: recommendationChanges(action.id, baseline),
+    }))),
+    checkIns: [],
+});
+
+// Les actions sont combinées dans l'ordre de leurs dates cibles : en cas de
+// conflit (ex. deux changements de régime), la plus tardive l'emporte.
+const combineChanges = (items: PlanItem[]): ScenarioChanges =>
+    itemsByDate(items)
+        .reduce<ScenarioChanges>((combined, item) => ({...combined, ...item.changes}), {});
+
+const planBaseline = (plan: ReductionPlan): FormData => ({
+    ...plan.baseline,
+    transport: applyCommutes(plan.baseline.transport),
+});
+
+const planTotal = (plan: ReductionPlan, items: PlanItem[]) =>
+    calculateScenario(planBaseline(plan), combineChanges(items), plan.factorDataset).total;
+
+export const completedItemIds = (plan: ReductionPlan): string[] =>
+    plan.checkIns.length > 0 ? plan.checkIns[plan.checkIns.length - 1].completedIds : [];
+
+// Empreinte projetée à chaque date cible, en supposant chaque action réalisée à sa date
+export const projectPlan = (plan: ReductionPlan): TrendPoint[] => {
+    const start = plan.createdAt.slice(0, 10);
+    // Une date cible déjà passée à la création compte dès le point de départ
+    const dates = Array.from(new Set(plan.items.map((item) => (item.targetDate > start ? item.targetDate : start)))).sort();
+    const points = [start, ...dates].map((date) => {
+        const result = calculateScenario(
+            planBaseline(plan),
+            combineChanges(plan.items.filter((item) => item.targetDate <= date)),
+            plan.factorDataset
+        );
+        return {
+            id: date,
+            date,
+            total: result.total,
+            transport: result.breakdown.transport,
+            energy: result.breakdown.energy,
+            lifestyle: result.breakdown.lifestyle,
+        };
+    });
+    // Une date cible égale à la date de création fusionne avec le point de départ
+    return points.filter((point, index) => points.findIndex((other) => other.id === point.id) === index);
+};
+
+export const planProgress = (plan: ReductionPlan): PlanProgress => {
+    const completed = completedItemIds(plan);
+    const baselineTotal = planTotal(plan, []);
+    const targetTotal = planTotal(plan, plan.items);
+    const achievedTotal = planTotal(plan, plan.items.filter((item) => completed.includes(item.recommendationId)));
+    const plannedSavings = baselineTotal - targetTotal;
+    const achievedSavings = baselineTotal - achievedTotal;
+
+    return {
+        baselineTotal,
+        targetTotal,
+        achievedTotal,
+        plannedSavings,
+        achievedSavings,
+        percentage: plannedSavings > 0 ? Math.min((achievedSavings / plannedSavings) * 100, 100) : 0,
+    };
+};
+
+export const recordCheckIn = (plan: ReductionPlan, completedIds: string[]): ReductionPlan => ({
+    ...plan,
+    checkIns: [...plan.checkIns, {date: new Date().toISOString(), completedIds}],
+});
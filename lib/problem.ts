@@ -0,0 +1,59 @@
+// lib/problem.ts
+// Erreurs des routes API au format « problem details » (RFC 9457) :
+// application/problem+json avec type, title, status et detail. Les erreurs
+// de validation y ajoutent la liste des champs en cause. Sans dépendance
+// serveur : les composants relisent le type des erreurs reçues.
+
+import {translate, type Locale} from "@/lib/i18n";
+import type {ValidationIssue} from "@/lib/validation";
+
+export const PROBLEM_TYPES = {
+    invalidJson: "/problems/invalid-json",
+    unsupportedLocale: "/problems/unsupported-locale",
+    validation: "/problems/validation-error",
+    invalidTeamName: "/problems/invalid-team-name",
+    invalidResult: "/problems/invalid-result",
+    teamNotFound: "/problems/team-not-found",
+    unauthorized: "/problems/unauthorized",
+    schemaNotFound: "/problems/schema-not-found",
+} as const;
+
+export type ProblemCode = keyof typeof PROBLEM_TYPES;
+
+export interface ProblemDetails {
+    type: string;
+    title: string;
+    status: number;
+    detail?: string;
+    [extension: string]: unknown;
+}
+
+export interface IssueDetail extends ValidationIssue {
+    message: string;
+}
+
+export const problemResponse = (problem: ProblemDetails) =>
+    new Response(JSON.stringify(problem), {
+        status: problem.status,
+        headers: {"Content-Type": "application/problem+json"},
+    });
+
+// Nom du problème d'une réponse d'erreur, pour choisir le message affiché ; null s'il est inconnu
+export const problemCode = (body: unknown): ProblemCode | null => {
+    const type = (body as Partial<ProblemDetails> | null)?.type;
+    const entry = Object.entries(PROBLEM_TYPES).find(([, value]) => value === type);
+    return entry ? entry[0] as ProblemCode : null;
+};
+
+// Champs en cause, avec le message traduit
+export const describeIssues = (issues: ValidationIssue[], locale: Locale): IssueDetail[] =>
+    issues.map((issue) => ({...issue, message: translate(locale, `validation.${issue.code}`, issue.params)}));
+
+export const validationProblem = (issues: ValidationIssue[], locale: Locale) =>
+    problemResponse({
+        type: PROBLEM_TYPES.validation,
+        title: "Invalid form data",
+        status: 422,
+        detail: `${issues.length} field(s) failed validation.`,
+        errors: describeIssues(issues, locale),
+    });
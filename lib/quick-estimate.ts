@@ -0,0 +1,59 @@
+// lib/quick-estimate.ts
+// Estimation rapide : les réponses non demandées sont reprises d'un profil
+// type (data/profiles.json). Les chemins estimés sont conservés pour les
+// signaler dans le résultat et les faire préciser dans le questionnaire complet.
+
+import profileTable from "@/data/profiles.json";
+import type {CarbonFootprintResult, FormData} from "@/lib/types";
+import {
+    askedPaths,
+    getSubStep,
+    NUMERIC_FIELDS,
+    QUICK_WIZARD_STEPS,
+    visiblePositions,
+    type WizardPosition,
+} from "@/lib/wizard";
+
+export interface DefaultProfile {
+    id: string;
+    formData: Omit<FormData, "country">;
+}
+
+export type EstimateSector = keyof CarbonFootprintResult["breakdown"];
+
+export const DEFAULT_PROFILES: DefaultProfile[] = profileTable.profiles;
+
+export const getDefaultProfile = (id: string): DefaultProfile => {
+    const profile = DEFAULT_PROFILES.find((candidate) => candidate.id === id);
+    if (!profile) {
+        throw new Error(`Unknown profile: ${id}`);
+    }
+    return profile;
+};
+
+// Réponses de départ du parcours rapide : le profil choisi, dans le pays déjà sélectionné
+export const profileFormData = (id: string, country: string): FormData => ({
+    country,
+    ...getDefaultProfile(id).formData,
+});
+
+// Questions du questionnaire complet auxquelles le parcours rapide n'a pas demandé de réponse
+export const quickEstimatedPaths = (formData: FormData): string[] => {
+    const answered = askedPaths(formData, QUICK_WIZARD_STEPS);
+    return askedPaths(formData).filter((path) => !answered.includes(path));
+};
+
+// Réponses chiffrées signalées comme estimées par l'utilisateur, parmi celles encore demandées
+export const markedEstimatedPaths = (formData: FormData, paths: string[]): string[] => {
+    const asked = askedPaths(formData);
+    return paths.filter((path) => asked.includes(path) && NUMERIC_FIELDS.some((field) => field.path === path));
+};
+
+export const isSectorEstimated = (paths: string[], sector: EstimateSector) =>
+    paths.some((path) => path.startsWith(`${sector}.`));
+
+// Première sous-étape du questionnaire complet contenant une valeur estimée
+export const firstEstimatedPosition = (formData: FormData, paths: string[]): WizardPosition | null =>
+    visiblePositions(formData).find((position) =>
+        getSubStep(position)?.fields.some((field) => paths.includes(field.path))
+    ) ?? null;
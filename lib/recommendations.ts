@@ -0,0 +1,185 @@
+// lib/recommendations.ts
+// Recommandations chiffrées : chaque action est décrite comme une modification
+// des réponses, et l'économie est calculée par le moteur pour cet utilisateur.
+
+import {distanceBetweenAirports} from "@/lib/airports";
+import {applyCommutes} from "@/lib/commute";
+import type {FactorDatasetRef} from "@/lib/factors";
+import {DEFAULT_LOCALE, translate, type Locale} from "@/lib/i18n";
+import {calculateScenario, LONG_HAUL_DISTANCE_KM, type ScenarioChanges} from "@/lib/scenarios";
+import type {FormData, RecommendationAction} from "@/lib/types";
+
+export type EffortLevel = "low" | "medium" | "high";
+export type CostLevel = "none" | "low" | "medium" | "high";
+
+export type RecommendationCategory = "transport" | "energy" | "lifestyle";
+
+// Les titres et descriptions sont dans les catalogues, sous "recommendations.<id>"
+interface RecommendationDefinition {
+    id: string;
+    category: RecommendationCategory;
+    effort: EffortLevel;
+    cost: CostLevel;
+    appliesTo: (formData: FormData) => boolean;
+    changes: (formData: FormData) => ScenarioChanges;
+}
+
+const hasLongHaulFlights = ({transport}: FormData) =>
+    transport.detailedFlights
+        ? transport.flightLegs.some((leg) =>
+            (distanceBetweenAirports(leg.origin, leg.destination) ?? 0) > LONG_HAUL_DISTANCE_KM)
+        : transport.flightsLongHaul > 0;
+
+export const RECOMMENDATIONS: RecommendationDefinition[] = [
+    {
+        id: "reduce-car-km",
+        category: "transport",
+        effort: "medium",
+        cost: "none",
+        appliesTo: ({transport}) => transport.carType !== "none" && transport.carKm > 0,
+        changes: ({transport}) => ({carKm: transport.carKm * 0.8}),
+    },
+    {
+        id: "carpool",
+        category: "transport",
+        effort: "medium",
+        cost: "none",
+        appliesTo: ({transport}) =>
+            transport.carType !== "none" && transport.carKm > 0 && transport.carPassengers < 2,
+        changes: () => ({carPassengers: 2}),
+    },
+    {
+        id: "electric-car",
+        category: "transport",
+        effort: "high",
+        cost: "high",
+        appliesTo: ({transport}) => ["petrol", "diesel", "hybrid"].includes(transport.carType),
+        changes: () => ({carType: "electric"}),
+    },
+    {
+        id: "drop-long-haul",
+        category: "transport",
+        effort: "high",
+        cost: "none",
+        appliesTo: hasLongHaulFlights,
+        changes: () => ({dropLongHaulFlights: true}),
+    },
+    {
+        id: "train-instead-of-short-haul",
+        category: "transport",
+        effort: "medium",
+        cost: "low",
+        appliesTo: ({transport}) => !transport.detailedFlights && transport.flightsShortHaul > 0,
+        changes: () => ({flightsShortHaul: 0}),
+    },
+    {
+        id: "reduce-electricity",
+        category: "energy",
+        effort: "low",
+        cost: "low",
+        appliesTo: ({energy}) => energy.electricityKwh > 0,
+        changes: ({energy}) => ({electricityKwh: energy.electricityKwh * 0.75}),
+    },
+    {
+        id: "green-electricity",
+        category: "energy",
+        effort: "low",
+        cost: "low",
+        appliesTo: ({energy}) => energy.electricityKwh > 0 && (energy.renewablePercentage ?? 0) < 100,
+        changes: () => ({renewablePercentage: 100}),
+    },
+    {
+        id: "improve-insulation",
+        category: "energy",
+        effort: "high",
+        cost: "high",
+        appliesTo: ({energy}) => energy.insulation === "poor" || energy.insulation === "medium",
+        changes: () => ({insulation: "good"}),
+    },
+    {
+        id: "heat-pump",
+        category: "energy",
+        effort: "high",
+        cost: "high",
+        appliesTo: ({energy}) => energy.heatingType === "oil" || energy.heatingType === "gas",
+        changes: () => ({heatingType: "heatPump"}),
+    },
+    {
+        id: "flexitarian-diet",
+        category: "lifestyle",
+        effort: "medium",
+        cost: "none",
+        appliesTo: ({lifestyle}) => lifestyle.dietType === "omnivore",
+        changes: () => ({dietType: "flexitarian", meatFrequency: 2}),
+    },
+    {
+        id: "vegetarian-diet",
+        category: "lifestyle",
+        effort: "high",
+        cost: "none",
+        appliesTo: ({lifestyle}) => ["omnivore", "flexitarian", "pescatarian"].includes(lifestyle.dietType),
+        changes: () => ({dietType: "vegetarian"}),
+    },
+    {
+        id: "local-food",
+        category: "lifestyle",
+        effort: "medium",
+        cost: "low",
+        appliesTo: ({lifestyle}) => lifestyle.localFoodPercentage < 50,
+        changes: () => ({localFoodPercentage: 50}),
+    },
+    {
+        id: "waste-sorting",
+        category: "lifestyle",
+        effort: "low",
+        cost: "none",
+        appliesTo: ({lifestyle}) => !lifestyle.wasteRecycling || !lifestyle.wasteComposting,
+        changes: () => ({wasteRecycling: true, wasteComposting: true}),
+    },
+    {
+        id: "responsible-shopping",
+        category: "lifestyle",
+        effort: "medium",
+        cost: "none",
+        appliesTo: ({lifestyle}) =>
+            lifestyle.shoppingHabits.clothes > 0 || lifestyle.shoppingHabits.electronics > 0,
+        changes: ({lifestyle}) => ({
+            clothesShopping: lifestyle.shoppingHabits.clothes * 0.7,
+            electronicsShopping: lifestyle.shoppingHabits.electronics * 0.7,
+        }),
+    },
+];
+
+// Recommandations applicables, triées par économie décroissante (tonnes CO2e/an)
+export const getRecommendations = (
+    formData: FormData,
+    factorDataset?: FactorDatasetRef,
+    locale: Locale = DEFAULT_LOCALE
+): RecommendationAction[] => {
+    // Les trajets réguliers sont convertis pour que les kilomètres en voiture soient complets
+    const baseline: FormData = {...formData, transport: applyCommutes(formData.transport)};
+    const baselineTotal = calculateScenario(baseline, {}, factorDataset).total;
+
+    return RECOMMENDATIONS
+        .filter((recommendation) => recommendation.appliesTo(baseline))
+        .map((recommendation) => ({
+            id: recommendation.id,
+            category: recommendation.category,
+            title: translate(locale, `recommendations.${recommendation.id}.title`),
+            description: translate(locale, `recommendations.${recommendation.id}.description`),
+            effort: recommendation.effort,
+            cost: recommendation.cost,
+            savings: baselineTotal - calculateScenario(baseline, recommendation.changes(baseline), factorDataset).total,
+        }))
+        .filter((action) => action.savings > 0)
+        .sort((a, b) => b.savings - a.savings);
+};
+
+// Modification des réponses correspondant à une recommandation
+export const recommendationChanges = (id: string, formData: FormData): ScenarioChanges => {
+    const recommendation = RECOMMENDATIONS.find((candidate) => candidate.id === id);
+    if (!recommendation) {
+        throw new Error(`Unknown recommendation: ${id}`);
+    }
+    return recommendation.changes({...formData, transport: applyCommutes(formData.transport)});
+};
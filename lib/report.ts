@@ -0,0 +1,128 @@
+// lib/report.ts
+// Rapport exportable d'un calcul : réponses, résultat, comparaisons, jeu de
+// facteurs et recommandations. Le JSON se réimporte dans le questionnaire ;
+// le CSV liste une ligne par valeur (section, élément, valeur, unité).
+
+import {migrateFormData, STORAGE_SCHEMA_VERSION} from "@/lib/storage";
+import type {CarbonFootprintResult, FormData, RecommendationAction} from "@/lib/types";
+import {hasErrors, validateFormData} from "@/lib/validation";
+import {askedPaths, getFormValue} from "@/lib/wizard";
+
+export const REPORT_FORMAT = "carbone-report";
+export const REPORT_VERSION = 1;
+
+export interface FootprintReport {
+    format: typeof REPORT_FORMAT;
+    version: number;
+    schemaVersion: number;
+    generatedAt: string;
+    formData: FormData;
+    // Réponses reprises d'un profil type (estimation rapide)
+    estimatedPaths: string[];
+    result: CarbonFootprintResult;
+    recommendations: RecommendationAction[];
+}
+
+export const buildReport = (
+    formData: FormData,
+    result: CarbonFootprintResult,
+    recommendations: RecommendationAction[],
+    estimatedPaths: string[] = []
+): FootprintReport => ({
+    format: REPORT_FORMAT,
+    version: REPORT_VERSION,
+    schemaVersion: STORAGE_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    formData,
+    estimatedPaths,
+    result,
+    recommendations,
+});
+
+export const reportToJson = (report: FootprintReport) => JSON.stringify(report, null, 2);
+
+// Réponses d'un rapport JSON, ou null si le fichier n'en est pas un ou contient des réponses invalides
+export const parseReport = (text: string): Pick<FootprintReport, "formData" | "estimatedPaths"> | null => {
+    try {
+        const report = JSON.parse(text) as Partial<FootprintReport>;
+        if (report.format !== REPORT_FORMAT || typeof report.version !== "number" || report.version > REPORT_VERSION) {
+            return null;
+        }
+        const formData = migrateFormData(report.formData, report.schemaVersion ?? STORAGE_SCHEMA_VERSION);
+        if (hasErrors(validateFormData(formData))) {
+            return null;
+        }
+        const estimatedPaths = Array.isArray(report.estimatedPaths)
+            ? report.estimatedPaths.filter((path): path is string => typeof path === "string")
+            : [];
+        return {formData, estimatedPaths};
+    } catch {
+        return null;
+    }
+};
+
+type CsvValue = string | number | boolean;
+
+interface CsvRow {
+    section: string;
+    item: string;
+    value: CsvValue;
+    unit?: string;
+}
+
+// Une ligne par valeur simple : les listes et objets sont dépliés ("transport.commutes.0.mode")
+const flattenValue = (path: string, value: unknown): { path: string; value: CsvValue }[] => {
+    if (Array.isArray(value)) {
+        return value.flatMap((item, index) => flattenValue(`${path}.${index}`, item));
+    }
+    if (typeof value === "object" && value !== null) {
+        return Object.entries(value).flatMap(([key, entry]) => flattenValue(`${path}.${key}`, entry));
+    }
+    return value === undefined || value === null ? [] : [{path, value: value as CsvValue}];
+};
+
+const escapeCsv = (value: CsvValue) => {
+    // Trois décimales (le kg pour les tonnes) : évite les décimales parasites du calcul flottant
+    const text = typeof value === "number" ? String(Math.round(value * 1000) / 1000) : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const TONNES_PER_YEAR = "tCO2e/yr";
+
+export const reportToCsv = (report: FootprintReport): string => {
+    const {result} = report;
+    const rows: CsvRow[] = [
+        ...askedPaths(report.formData).flatMap((path) =>
+            flattenValue(path, getFormValue(report.formData, path)).map((entry) => ({
+                section: report.estimatedPaths.includes(path) ? "input (estimated)" : "input",
+                item: entry.path,
+                value: entry.value,
+            }))
+        ),
+        {section: "result", item: "total", value: result.total, unit: TONNES_PER_YEAR},
+        ...Object.entries(result.breakdown).map(([sector, value]) => ({
+            section: "result",
+            item: sector,
+            value,
+            unit: TONNES_PER_YEAR,
+        })),
+        {section: "comparison", item: "country", value: result.country},
+        {section: "comparison", item: "nationalAverage", value: result.comparison.nationalAverage, unit: TONNES_PER_YEAR},
+        {section: "comparison", item: "percentageFromNational", value: result.comparison.percentageFromNational, unit: "%"},
+        {section: "comparison", item: "worldAverage", value: result.comparison.worldAverage, unit: TONNES_PER_YEAR},
+        {section: "comparison", item: "percentageFromWorld", value: result.comparison.percentageFromWorld, unit: "%"},
+        {section: "dataset", item: "id", value: result.factorDataset.id},
+        {section: "dataset", item: "version", value: result.factorDataset.version},
+        ...report.recommendations.map((action) => ({
+            section: "recommendation",
+            item: action.id,
+            value: action.savings,
+            unit: TONNES_PER_YEAR,
+        })),
+    ];
+
+    return [
+        "section,item,value,unit",
+        ...rows.map((row) => [row.section, row.item, row.value, row.unit ?? ""].map(escapeCsv).join(",")),
+    ].join("\n");
+};
@@ -0,0 +1,108 @@
+// lib/scenarios.ts
+// Scénarios « et si » : modifications appliquées aux réponses de référence.
+
+import {distanceBetweenAirports} from "@/lib/airports";
+import {calculateCarbonFootprint} from "@/lib/emissions";
+import {factorValue, getFactorDataset, type FactorDataset, type FactorDatasetRef} from "@/lib/factors";
+import type {CarbonFootprintResult, FormData} from "@/lib/types";
+
+// Distance au-delà de laquelle un vol est considéré long-courrier (km)
+export const LONG_HAUL_DISTANCE_KM = 3500;
+
+export interface ScenarioChanges {
+    carType?: string;
+    carKm?: number;
+    carPassengers?: number;
+    flightsShortHaul?: number;
+    flightsMediumHaul?: number;
+    flightsLongHaul?: number;
+    dropLongHaulFlights?: boolean;
+    electricityKwh?: number;
+    heatingType?: string;
+    insulation?: string;
+    renewablePercentage?: number;
+    dietType?: string;
+    meatFrequency?: number;
+    localFoodPercentage?: number;
+    wasteRecycling?: boolean;
+    wasteComposting?: boolean;
+    clothesShopping?: number;
+    electronicsShopping?: number;
+}
+
+export interface Scenario {
+    id: string;
+    name: string;
+    changes: ScenarioChanges;
+}
+
+export const applyScenario = (
+    formData: FormData,
+    changes: ScenarioChanges,
+    dataset: FactorDataset = getFactorDataset()
+): FormData => {
+    const {transport, energy, lifestyle} = formData;
+
+    const flightLegs = changes.dropLongHaulFlights
+        ? transport.flightLegs.filter((leg) =>
+            (distanceBetweenAirports(leg.origin, leg.destination) ?? 0) <= LONG_HAUL_DISTANCE_KM)
+        : transport.flightLegs;
+
+    const renewablePercentage = changes.renewablePercentage ?? energy.renewablePercentage;
+
+    // Un changement de chauffage conserve le besoin en énergie : la consommation
+    // saisie (m³, litres ou kWh) est convertie dans l'unité du nouveau système
+    const heatingType = changes.heatingType ?? energy.heatingType;
+    const {energyConversion} = dataset.factors;
+    const heatingConsumption = energy.heatingConsumption *
+        (factorValue(energyConversion, energy.heatingType) || 1) /
+        (factorValue(energyConversion, heatingType) || 1);
+
+    return {
+        ...formData,
+        transport: {
+            ...transport,
+            carType: changes.carType ?? transport.carType,
+            carKm: changes.carKm ?? transport.carKm,
+            carPassengers: changes.carPassengers ?? transport.carPassengers,
+            flightsShortHaul: changes.flightsShortHaul ?? transport.flightsShortHaul,
+            flightsMediumHaul: changes.flightsMediumHaul ?? transport.flightsMediumHaul,
+            flightsLongHaul: changes.dropLongHaulFlights
+                ? 0
+                : changes.flightsLongHaul ?? transport.flightsLongHaul,
+            flightLegs,
+        },
+        energy: {
+            ...energy,
+            electricityKwh: changes.electricityKwh ?? energy.electricityKwh,
+            heatingType,
+            heatingConsumption,
+            insulation: changes.insulation ?? energy.insulation,
+            renewableEnergy: energy.renewableEnergy || (renewablePercentage ?? 0) > 0,
+            renewablePercentage,
+        },
+        lifestyle: {
+            ...lifestyle,
+            dietType: changes.dietType ?? lifestyle.dietType,
+            meatFrequency: changes.meatFrequency ?? lifestyle.meatFrequency,
+            localFoodPercentage: changes.localFoodPercentage ?? lifestyle.localFoodPercentage,
+            wasteRecycling: changes.wasteRecycling ?? lifestyle.wasteRecycling,
+            wasteComposting: changes.wasteComposting ?? lifestyle.wasteComposting,
+            shoppingHabits: {
+                ...lifestyle.shoppingHabits,
+                clothes: changes.clothesShopping ?? lifestyle.shoppingHabits.clothes,
+                electronics: changes.electronicsShopping ?? lifestyle.shoppingHabits.electronics,
+            },
+        },
+    };
+};
+
+// Recalcule un scénario avec le même jeu de facteurs que le résultat de référence
+export const calculateScenario = (
+    baseline: FormData,
+    changes: ScenarioChanges,
+    factorDataset?: FactorDatasetRef
+): CarbonFootprintResult => {
+    const dataset = getFactorDataset(factorDataset);
+    return calculateCarbonFootprint(applyScenario(baseline, changes, dataset), dataset);
+};
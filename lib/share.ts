@@ -0,0 +1,144 @@
+// lib/share.ts
+// Liens de partage : les réponses (ou le seul résultat, pour ne rien dévoiler
+// des habitudes) sont encodées dans l'URL sous la forme "<type><version>.<données>",
+// les données étant du JSON compact en base64url. Changer le format impose
+// d'incrémenter SHARE_FORMAT_VERSION et de continuer à relire les anciens liens.
+
+import {calculateCarbonFootprint, compareToNationalAverage} from "@/lib/emissions";
+import {getCountryProfile} from "@/lib/countries";
+import {getFactorDataset, type FactorDatasetRef} from "@/lib/factors";
+import {initialFormData} from "@/lib/form-data";
+import {migrateFormData, STORAGE_SCHEMA_VERSION} from "@/lib/storage";
+import type {CarbonFootprintResult, FormData} from "@/lib/types";
+import {hasErrors, validateFormData} from "@/lib/validation";
+
+export const SHARE_FORMAT_VERSION = 1;
+
+export type SharedPayload =
+    | { kind: "answers"; formData: FormData; factorDataset: FactorDatasetRef }
+    | { kind: "result"; result: CarbonFootprintResult };
+
+const KIND_PREFIXES: Record<SharedPayload["kind"], string> = {
+    answers: "a",
+    result: "r",
+};
+
+// Réponses : version du schéma de FormData, jeu de facteurs et écarts aux valeurs par défaut
+interface EncodedAnswers {
+    s: number;
+    d: [string, string];
+    f: unknown;
+}
+
+// Résultat seul : total, répartition (transport, énergie, mode de vie), pays et jeu de facteurs
+interface EncodedResult {
+    t: number;
+    b: [number, number, number];
+    c: string;
+    d: [string, string];
+}
+
+type PlainObject = Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is PlainObject =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Ne garde que les valeurs qui diffèrent des réponses par défaut
+const diffFrom = (defaults: unknown, value: unknown): unknown => {
+    if (isPlainObject(defaults) && isPlainObject(value)) {
+        const entries = Object.entries(value)
+            .map(([key, entry]) => [key, diffFrom(defaults[key], entry)])
+            .filter(([, entry]) => entry !== undefined);
+        return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+    }
+    return JSON.stringify(defaults) === JSON.stringify(value) ? undefined : value;
+};
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const toBase64Url = (text: string) => {
+    const binary = Array.from(new TextEncoder().encode(text), (byte) => String.fromCharCode(byte)).join("");
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (value: string) => {
+    const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+    return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+export const encodeShare = (payload: SharedPayload): string => {
+    const data: EncodedAnswers | EncodedResult = payload.kind === "answers"
+        ? {
+            s: STORAGE_SCHEMA_VERSION,
+            d: [payload.factorDataset.id, payload.factorDataset.version],
+            f: diffFrom(initialFormData, payload.formData) ?? {},
+        }
+        : {
+            t: round(payload.result.total),
+            b: [
+                round(payload.result.breakdown.transport),
+                round(payload.result.breakdown.energy),
+                round(payload.result.breakdown.lifestyle),
+            ],
+            c: payload.result.country,
+            d: [payload.result.factorDataset.id, payload.result.factorDataset.version],
+        };
+    return `${KIND_PREFIXES[payload.kind]}${SHARE_FORMAT_VERSION}.${toBase64Url(JSON.stringify(data))}`;
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const decodeAnswers = (data: EncodedAnswers): SharedPayload | null => {
+    const formData = migrateFormData(data.f, data.s);
+    if (hasErrors(validateFormData(formData))) {
+        return null;
+    }
+    const [id, version] = data.d;
+    const {id: datasetId, version: datasetVersion} = getFactorDataset({id, version});
+    return {kind: "answers", formData, factorDataset: {id: datasetId, version: datasetVersion}};
+};
+
+const decodeResult = ({t, b, c, d}: EncodedResult): SharedPayload | null => {
+    if (!isFiniteNumber(t) || !Array.isArray(b) || b.length !== 3 || !b.every(isFiniteNumber)) {
+        return null;
+    }
+    const [transport, energy, lifestyle] = b;
+    return {
+        kind: "result",
+        result: {
+            total: t,
+            breakdown: {transport, energy, lifestyle},
+            comparison: compareToNationalAverage(t, getCountryProfile(c)),
+            country: c,
+            factorDataset: {id: d[0], version: d[1]},
+        },
+    };
+};
+
+// Lien illisible, d'une version inconnue ou aux réponses invalides : null
+export const decodeShare = (token: string): SharedPayload | null => {
+    const match = /^([ar])(\d+)\.([A-Za-z0-9_-]+)$/.exec(token);
+    if (!match || Number(match[2]) > SHARE_FORMAT_VERSION) {
+        return null;
+    }
+    try {
+        const data = JSON.parse(fromBase64Url(match[3]));
+        if (!isPlainObject(data) || !Array.isArray(data.d) || data.d.length !== 2) {
+            return null;
+        }
+        return match[1] === KIND_PREFIXES.answers
+            ? decodeAnswers(data as unknown as EncodedAnswers)
+            : decodeResult(data as unknown as EncodedResult);
+    } catch {
+        // JSON invalide, pays ou jeu de facteurs inconnu
+        return null;
+    }
+};
+
+// Résultat affiché pour un lien : recalculé avec le jeu de facteurs d'origine si ce sont des réponses
+export const sharedResult = (payload: SharedPayload): CarbonFootprintResult =>
+    payload.kind === "answers"
+        ? calculateCarbonFootprint(payload.formData, getFactorDataset(payload.factorDataset))
+        : payload.result;
+
+export const sharePath = (payload: SharedPayload) => `/share/${encodeShare(payload)}`;
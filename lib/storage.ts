@@ -0,0 +1,289 @@
+// lib/storage.ts
+// Sauvegarde locale (localStorage) du questionnaire en cours, de l'historique
+// des résultats, des scénarios, du plan de réduction, du questionnaire du
+// foyer et de la langue choisie.
+// Les données sont versionnées : lorsque la forme de FormData change,
+// incrémenter STORAGE_SCHEMA_VERSION et ajouter une migration.
+
+import {initialFormData} from "@/lib/form-data";
+import {isLocale, type Locale} from "@/lib/i18n";
+import type {ReductionPlan} from "@/lib/plan";
+import type {Scenario} from "@/lib/scenarios";
+import type {CarbonFootprintResult, FormData, HouseholdData} from "@/lib/types";
+import type {WizardMode} from "@/lib/wizard";
+
+export const STORAGE_SCHEMA_VERSION = 2;
+
+const WIZARD_STORAGE_KEY = "carbone:wizard";
+const HISTORY_STORAGE_KEY = "carbone:history";
+const SCENARIOS_STORAGE_KEY = "carbone:scenarios";
+const PLAN_STORAGE_KEY = "carbone:plan";
+const LOCALE_STORAGE_KEY = "carbone:locale";
+const HOUSEHOLD_STORAGE_KEY = "carbone:household";
+const TEAM_ADMIN_STORAGE_KEY = "carbone:team-admin";
+
+export interface WizardState {
+    formData: FormData;
+    currentStep: number;
+    subStep: number;
+    mode?: WizardMode;
+    // Réponses reprises d'un profil type (estimation rapide)
+    estimatedPaths?: string[];
+}
+
+export interface HouseholdState {
+    household: HouseholdData;
+    page: number;
+}
+
+// Équipe administrée depuis ce navigateur
+export interface TeamAdminCredentials {
+    code: string;
+    adminKey: string;
+}
+
+export interface SavedCalculation {
+    id: string;
+    date: string;
+    formData: FormData;
+    result: CarbonFootprintResult;
+    estimatedPaths?: string[];
+}
+
+interface StoredEnvelope<T> {
+    schemaVersion: number;
+    data: T;
+}
+
+type PlainObject = Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is PlainObject =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+type Migration = (formData: PlainObject) => PlainObject;
+
+// Migrations de FormData, indexées par la version de départ (n vers n + 1)
+const FORM_DATA_MIGRATIONS: Record<number, Migration> = {
+    // 1 → 2 : statut d'occupation du logement ; les réponses plus anciennes donnaient
+    // toujours la consommation de chauffage, comme un propriétaire
+    1: (formData) => ({
+        ...formData,
+        energy: {housingStatus: "owner", ...(isPlainObject(formData.energy) ? formData.energy : {})},
+    }),
+};
+
+// Complète récursivement les champs absents avec les valeurs par défaut
+const withDefaults = (defaults: PlainObject, value: PlainObject): PlainObject => {
+    const merged: PlainObject = {...defaults};
+    Object.entries(value).forEach(([key, entry]) => {
+        merged[key] = isPlainObject(defaults[key]) && isPlainObject(entry)
+            ? withDefaults(defaults[key] as PlainObject, entry)
+            : entry;
+    });
+    return merged;
+};
+
+export const migrateFormData = (formData: unknown, fromVersion: number): FormData => {
+    let migrated = isPlainObject(formData) ? formData : {};
+    for (let version = fromVersion; version < STORAGE_SCHEMA_VERSION; version++) {
+        const migration = FORM_DATA_MIGRATIONS[version];
+        if (migration) {
+            migrated = migration(migrated);
+        }
+    }
+    return withDefaults(initialFormData as unknown as PlainObject, migrated) as unknown as FormData;
+};
+
+const readEnvelope = <T>(key: string): StoredEnvelope<T> | null => {
+    if (typeof window === "undefined") {
+        return null;
+    }
+    try {
+        const raw = window.localStorage.getItem(key);
+        if (!raw) {
+            return null;
+        }
+        const envelope = JSON.parse(raw) as StoredEnvelope<T>;
+        // Les données d'une version plus récente ne peuvent pas être relues
+        if (typeof envelope.schemaVersion !== "number" || envelope.schemaVersion > STORAGE_SCHEMA_VERSION) {
+            return null;
+        }
+        return envelope;
+    } catch {
+        return null;
+    }
+};
+
+const writeEnvelope = <T>(key: string, data: T) => {
+    if (typeof window === "undefined") {
+        return;
+    }
+    try {
+        const envelope: StoredEnvelope<T> = {schemaVersion: STORAGE_SCHEMA_VERSION, data};
+        window.localStorage.setItem(key, JSON.stringify(envelope));
+    } catch (error) {
+        // Stockage plein ou désactivé : la sauvegarde est perdue mais le calcul continue
+        console.warn("Unable to save to localStorage:", error);
+    }
+};
+
+export const loadWizardState = (): WizardState | null => {
+    const envelope = readEnvelope<WizardState>(WIZARD_STORAGE_KEY);
+    if (!envelope) {
+        return null;
+    }
+    return {
+        ...envelope.data,
+        formData: migrateFormData(envelope.data.formData, envelope.schemaVersion),
+    };
+};
+
+export const saveWizardState = (state: WizardState) => {
+    writeEnvelope(WIZARD_STORAGE_KEY, state);
+};
+
+export const clearWizardState = () => {
+    if (typeof window !== "undefined") {
+        window.localStorage.removeItem(WIZARD_STORAGE_KEY);
+    }
+};
+
+export const loadHistory = (): SavedCalculation[] => {
+    const envelope = readEnvelope<SavedCalculation[]>(HISTORY_STORAGE_KEY);
+    if (!envelope || !Array.isArray(envelope.data)) {
+        return [];
+    }
+    return envelope.data.map((calculation) => ({
+        ...calculation,
+        formData: migrateFormData(calculation.formData, envelope.schemaVersion),
+    }));
+};
+
+export const generateId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const saveHistory = (history: SavedCalculation[]) => {
+    writeEnvelope(HISTORY_STORAGE_KEY, history);
+};
+
+export const addToHistory = (
+    formData: FormData,
+    result: CarbonFootprintResult,
+    estimatedPaths: string[] = []
+): SavedCalculation[] => {
+    const calculation: SavedCalculation = {
+        id: generateId(),
+        date: new Date().toISOString(),
+        formData,
+        result,
+        estimatedPaths,
+    };
+    const history = [...loadHistory(), calculation];
+    saveHistory(history);
+    return history;
+};
+
+export const removeFromHistory = (id: string): SavedCalculation[] => {
+    const history = loadHistory().filter((calculation) => calculation.id !== id);
+    saveHistory(history);
+    return history;
+};
+
+export const loadScenarios = (): Scenario[] => {
+    const envelope = readEnvelope<Scenario[]>(SCENARIOS_STORAGE_KEY);
+    return envelope && Array.isArray(envelope.data) ? envelope.data : [];
+};
+
+export const addScenario = (name: string, changes: Scenario["changes"]): Scenario[] => {
+    const scenarios = [...loadScenarios(), {id: generateId(), name, changes}];
+    writeEnvelope(SCENARIOS_STORAGE_KEY, scenarios);
+    return scenarios;
+};
+
+export const removeScenario = (id: string): Scenario[] => {
+    const scenarios = loadScenarios().filter((scenario) => scenario.id !== id);
+    writeEnvelope(SCENARIOS_STORAGE_KEY, scenarios);
+    return scenarios;
+};
+
+export const loadPlan = (): ReductionPlan | null => {
+    const envelope = readEnvelope<ReductionPlan>(PLAN_STORAGE_KEY);
+    if (!envelope) {
+        return null;
+    }
+    return {
+        ...envelope.data,
+        baseline: migrateFormData(envelope.data.baseline, envelope.schemaVersion),
+    };
+};
+
+export const savePlan = (plan: ReductionPlan) => {
+    writeEnvelope(PLAN_STORAGE_KEY, plan);
+};
+
+export const clearPlan = () => {
+    if (typeof window !== "undefined") {
+        window.localStorage.removeItem(PLAN_STORAGE_KEY);
+    }
+};
+
+export const loadLocale = (): Locale | null => {
+    const envelope = readEnvelope<string>(LOCALE_STORAGE_KEY);
+    return envelope && isLocale(envelope.data) ? envelope.data : null;
+};
+
+export const saveLocale = (locale: Locale) => {
+    writeEnvelope(LOCALE_STORAGE_KEY, locale);
+};
+
+export const loadHouseholdState = (): HouseholdState | null => {
+    const envelope = readEnvelope<HouseholdState>(HOUSEHOLD_STORAGE_KEY);
+    if (!envelope || !Array.isArray(envelope.data.household?.members)) {
+        return null;
+    }
+    const {household, page} = envelope.data;
+    // Logement et réponses des membres migrés comme un FormData
+    const shared = migrateFormData({country: household.country, energy: household.energy}, envelope.schemaVersion);
+    return {
+        page: typeof page === "number" ? page : 0,
+        household: {
+            ...household,
+            country: shared.country,
+            energy: shared.energy,
+            cars: Array.isArray(household.cars) ? household.cars : [],
+            members: household.members.map((member) => {
+                const answers = migrateFormData(
+                    {transport: member.transport, lifestyle: member.lifestyle},
+                    envelope.schemaVersion
+                );
+                return {...member, transport: answers.transport, lifestyle: answers.lifestyle};
+            }),
+        },
+    };
+};
+
+export const saveHouseholdState = (state: HouseholdState) => {
+    writeEnvelope(HOUSEHOLD_STORAGE_KEY, state);
+};
+
+export const clearHouseholdState = () => {
+    if (typeof window !== "undefined") {
+        window.localStorage.removeItem(HOUSEHOLD_STORAGE_KEY);
+    }
+};
+
+export const loadTeamAdmin = (): TeamAdminCredentials | null => {
+    const envelope = readEnvelope<TeamAdminCredentials>(TEAM_ADMIN_STORAGE_KEY);
+    return envelope && typeof envelope.data?.code === "string" && typeof envelope.data.adminKey === "string"
+        ? envelope.data
+        : null;
+};
+
+export const saveTeamAdmin = (credentials: TeamAdminCredentials) => {
+    writeEnvelope(TEAM_ADMIN_STORAGE_KEY, credentials);
+};
+
+export const clearTeamAdmin = () => {
+    if (typeof window !== "undefined") {
+        window.localStorage.removeItem(TEAM_ADMIN_STORAGE_KEY);
+    }
+};
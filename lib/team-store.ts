@@ -0,0 +1,113 @@
+// lib/team-store.ts
+// Stockage fichier des équipes, côté serveur uniquement (routes API). Le
+// fichier JSON est réécrit en entier à chaque envoi, les écritures étant mises
+// en file pour ne pas se chevaucher. La clé d'administration n'est conservée
+// que sous forme d'empreinte SHA-256.
+
+import {createHash, randomBytes, randomInt, timingSafeEqual} from "crypto";
+import {promises as fs} from "fs";
+import path from "path";
+import {aggregateSubmissions, MIN_GROUP_SIZE, TEAM_CODE_ALPHABET, TEAM_CODE_LENGTH} from "@/lib/teams";
+import type {TeamCreated, TeamSubmission, TeamSubmissionReceipt, TeamSummary} from "@/lib/types";
+
+const STORE_PATH = process.env.TEAM_STORE_PATH ?? path.join(process.cwd(), ".data", "teams.json");
+const STORE_VERSION = 1;
+
+interface TeamRecord {
+    code: string;
+    name: string;
+    adminKeyHash: string;
+    createdAt: string;
+    submissions: TeamSubmission[];
+}
+
+interface TeamStore {
+    version: number;
+    teams: Record<string, TeamRecord>;
+}
+
+const readStore = async (): Promise<TeamStore> => {
+    try {
+        const store = JSON.parse(await fs.readFile(STORE_PATH, "utf8")) as TeamStore;
+        return {version: STORE_VERSION, teams: store.teams ?? {}};
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+            return {version: STORE_VERSION, teams: {}};
+        }
+        throw error;
+    }
+};
+
+// Écriture dans un fichier temporaire puis renommage : le fichier n'est jamais à moitié écrit
+const writeStore = async (store: TeamStore) => {
+    await fs.mkdir(path.dirname(STORE_PATH), {recursive: true});
+    const tempPath = `${STORE_PATH}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(store), "utf8");
+    await fs.rename(tempPath, STORE_PATH);
+};
+
+let pending: Promise<unknown> = Promise.resolve();
+
+// Lecture-modification-écriture en série
+const updateStore = <T>(update: (store: TeamStore) => T): Promise<T> => {
+    const run = pending.then(async () => {
+        const store = await readStore();
+        const result = update(store);
+        await writeStore(store);
+        return result;
+    });
+    pending = run.catch(() => undefined);
+    return run;
+};
+
+const hashKey = (key: string) => createHash("sha256").update(key).digest();
+
+const generateCode = (teams: TeamStore["teams"]) => {
+    let code: string;
+    do {
+        code = Array.from({length: TEAM_CODE_LENGTH}, () => TEAM_CODE_ALPHABET[randomInt(TEAM_CODE_ALPHABET.length)]).join("");
+    } while (teams[code]);
+    return code;
+};
+
+// Nouvelle équipe ; la clé d'administration n'est renvoyée qu'une fois
+export const createTeam = (name: string): Promise<TeamCreated> => {
+    const adminKey = randomBytes(24).toString("base64url");
+    return updateStore((store) => {
+        const code = generateCode(store.teams);
+        store.teams[code] = {
+            code,
+            name,
+            adminKeyHash: hashKey(adminKey).toString("hex"),
+            createdAt: new Date().toISOString(),
+            submissions: [],
+        };
+        return {code, name, adminKey};
+    });
+};
+
+// Nombre de participants après l'envoi, ou null si l'équipe n'existe pas
+export const addSubmission = (code: string, submission: TeamSubmission) =>
+    updateStore((store): TeamSubmissionReceipt | null => {
+        const team = store.teams[code];
+        if (!team) {
+            return null;
+        }
+        team.submissions.push(submission);
+        return {name: team.name, participants: team.submissions.length};
+    });
+
+// Synthèse de l'équipe pour son administrateur ; null si le code ou la clé sont faux
+export const getTeamSummary = async (code: string, adminKey: string): Promise<TeamSummary | null> => {
+    const team = (await readStore()).teams[code];
+    if (!team || !timingSafeEqual(hashKey(adminKey), Buffer.from(team.adminKeyHash, "hex"))) {
+        return null;
+    }
+    return {
+        code: team.code,
+        name: team.name,
+        participants: team.submissions.length,
+        minGroupSize: MIN_GROUP_SIZE,
+        aggregate: aggregateSubmissions(team.submissions),
+    };
+};
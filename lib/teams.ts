@@ -0,0 +1,107 @@
+// lib/teams.ts
+// Agrégation des résultats d'une équipe. Les contributions sont anonymes et
+// aucun agrégat n'est publié sous MIN_GROUP_SIZE participants. Les agrégats
+// publiés sont des instantanés par lots complets de MIN_GROUP_SIZE envois,
+// arrondis au dixième de tonne : comparer deux instantanés ne révèle que la
+// somme d'un lot, pas le résultat d'une personne.
+//
+// Risque restant : sans comptes individuels, un administrateur qui envoie
+// lui-même MIN_GROUP_SIZE - 1 résultats connus dans un lot peut encore en
+// déduire le dernier, à l'arrondi près.
+
+import type {
+    CarbonFootprintResult,
+    TeamAggregate,
+    TeamDistributionBucket,
+    TeamSubmission,
+} from "@/lib/types";
+
+export const MIN_GROUP_SIZE = 5;
+
+export const MAX_TEAM_NAME_LENGTH = 80;
+
+// Tranches de 2 tonnes jusqu'à 20, puis une tranche ouverte
+const DISTRIBUTION_STEP = 2;
+const DISTRIBUTION_MAX = 20;
+
+// Résultat individuel plausible au-delà duquel l'envoi est refusé
+const MAX_SUBMITTED_TOTAL = 1000;
+
+// Valeurs publiées arrondies au dixième de tonne
+const AGGREGATE_SCALE = 10;
+
+// Codes sans caractères ambigus (0/O, 1/I/L) pour être dictés ou recopiés
+export const TEAM_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+export const TEAM_CODE_LENGTH = 8;
+
+export const normalizeTeamCode = (code: string) => code.trim().toUpperCase().replace(/[\s-]/g, "");
+
+export const isTeamCode = (code: string) =>
+    code.length === TEAM_CODE_LENGTH && code.split("").every((char) => TEAM_CODE_ALPHABET.includes(char));
+
+const isSectorValue = (value: unknown): value is number =>
+    typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= MAX_SUBMITTED_TOTAL;
+
+// Ne garde d'un CarbonFootprintResult envoyé que sa répartition ; null si elle n'est pas plausible
+export const submissionFromResult = (value: unknown, date = new Date()): TeamSubmission | null => {
+    const breakdown = (value as Partial<CarbonFootprintResult> | null)?.breakdown;
+    if (!breakdown || ![breakdown.transport, breakdown.energy, breakdown.lifestyle].every(isSectorValue)) {
+        return null;
+    }
+    const {transport, energy, lifestyle} = breakdown;
+    const total = transport + energy + lifestyle;
+    if (total > MAX_SUBMITTED_TOTAL) {
+        return null;
+    }
+    return {
+        total,
+        breakdown: {transport, energy, lifestyle},
+        month: date.toISOString().slice(0, 7),
+    };
+};
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const distribution = (totals: number[]): TeamDistributionBucket[] => {
+    const buckets: TeamDistributionBucket[] = [];
+    for (let from = 0; from < DISTRIBUTION_MAX; from += DISTRIBUTION_STEP) {
+        buckets.push({from, to: from + DISTRIBUTION_STEP, count: 0});
+    }
+    buckets.push({from: DISTRIBUTION_MAX, to: null, count: 0});
+    totals.forEach((total) => {
+        const index = Math.min(Math.floor(total / DISTRIBUTION_STEP), buckets.length - 1);
+        buckets[index].count += 1;
+    });
+    return buckets;
+};
+
+const roundFigure = (value: number) => Math.round(value * AGGREGATE_SCALE) / AGGREGATE_SCALE;
+
+// Envois pris en compte dans l'instantané : les lots complets, dans l'ordre d'arrivée
+export const aggregatedCount = (participants: number) => participants - (participants % MIN_GROUP_SIZE);
+
+export const aggregateSubmissions = (submissions: TeamSubmission[]): TeamAggregate | null => {
+    const counted = submissions.slice(0, aggregatedCount(submissions.length));
+    if (counted.length < MIN_GROUP_SIZE) {
+        return null;
+    }
+    const average = (value: (submission: TeamSubmission) => number) =>
+        roundFigure(counted.reduce((total, submission) => total + value(submission), 0) / counted.length);
+    const totals = counted.map((submission) => submission.total);
+
+    return {
+        participants: counted.length,
+        median: roundFigure(median(totals)),
+        mean: average((submission) => submission.total),
+        sectorAverages: {
+            transport: average((submission) => submission.breakdown.transport),
+            energy: average((submission) => submission.breakdown.energy),
+            lifestyle: average((submission) => submission.breakdown.lifestyle),
+        },
+        distribution: distribution(totals),
+    };
+};
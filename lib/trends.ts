@@ -0,0 +1,45 @@
+// lib/trends.ts
+// Séries temporelles des calculs sauvegardés, pour le suivi d'une année sur l'autre.
+
+import type {SavedCalculation} from "@/lib/storage";
+
+// Objectif de neutralité carbone 2050 : environ 2 tonnes CO2e par an et par personne
+export const TARGET_2050_PER_PERSON = 2;
+
+export const TREND_SERIES = ["total", "transport", "energy", "lifestyle"] as const;
+
+export type TrendSeries = typeof TREND_SERIES[number];
+
+export interface TrendPoint extends Record<TrendSeries, number> {
+    id: string;
+    date: string;
+}
+
+export type TrendDelta = Record<TrendSeries, number>;
+
+export const buildTrend = (history: SavedCalculation[]): TrendPoint[] =>
+    [...history]
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map((calculation) => ({
+            id: calculation.id,
+            date: calculation.date,
+            total: calculation.result.total,
+            transport: calculation.result.breakdown.transport,
+            energy: calculation.result.breakdown.energy,
+            lifestyle: calculation.result.breakdown.lifestyle,
+        }));
+
+// Écart avec le calcul précédent, en tonnes (négatif = réduction)
+export const deltaFromPrevious = (trend: TrendPoint[], index: number): TrendDelta | null => {
+    if (index <= 0 || index >= trend.length) {
+        return null;
+    }
+    const current = trend[index];
+    const previous = trend[index - 1];
+    return {
+        total: current.total - previous.total,
+        transport: current.transport - previous.transport,
+        energy: current.energy - previous.energy,
+        lifestyle: current.lifestyle - previous.lifestyle,
+    };
+};
@@ -0,0 +1,226 @@
+// lib/types.ts
+
+import type {FactorDatasetRef} from "@/lib/factors";
+import type {IssueDetail} from "@/lib/problem";
+
+export interface FlightLeg {
+    origin: string;
+    destination: string;
+    cabinClass: string;
+    returnTrip: boolean;
+}
+
+export interface CommuteTrip {
+    mode: string;
+    distanceKm: number;
+    tripsPerWeek: number;
+    weeksPerYear: number;
+}
+
+export interface TransportData {
+    carType: string;
+    carKm: number;
+    carAge: number;
+    carPassengers: number;
+    publicTransportType: string;
+    publicTransportKm: number;
+    publicTransportKmByMode: Record<string, number>;
+    commutes: CommuteTrip[];
+    flightsShortHaul: number;
+    flightsMediumHaul: number;
+    flightsLongHaul: number;
+    detailedFlights: boolean;
+    flightLegs: FlightLeg[];
+    radiativeForcing: boolean;
+    motorcycle: {
+        owns: boolean;
+        type?: string;
+        km?: number;
+    };
+}
+
+export interface EnergyData {
+    homeType: string;
+    housingStatus: string;
+    homeSize: number;
+    occupants: number;
+    electricityKwh: number;
+    heatingType: string;
+    heatingConsumption: number;
+    estimateHeating: boolean;
+    renewableEnergy: boolean;
+    renewablePercentage?: number;
+    insulation: string;
+}
+
+export interface LifestyleData {
+    dietType: string;
+    meatFrequency?: number;
+    localFoodPercentage: number;
+    wasteRecycling: boolean;
+    wasteComposting: boolean;
+    shoppingHabits: {
+        clothes: number;
+        electronics: number;
+        furniture: number;
+    };
+    waterConsumption: number;
+}
+
+export interface FormData {
+    country: string;
+    transport: TransportData;
+    energy: EnergyData;
+    lifestyle: LifestyleData;
+}
+
+// Voiture du foyer : ses émissions sont réparties selon la part d'utilisation de chaque membre
+export interface HouseholdCar {
+    id: string;
+    carType: string;
+    carKm: number;
+    carAge: number;
+    // Poids relatifs par identifiant de membre ; sans poids, répartition égale
+    usage: Record<string, number>;
+}
+
+// Réponses personnelles d'un membre ; sa voiture éventuelle est déclarée dans les voitures du foyer
+export interface HouseholdMember {
+    id: string;
+    name: string;
+    transport: TransportData;
+    lifestyle: LifestyleData;
+}
+
+export interface HouseholdData {
+    country: string;
+    // Logement partagé ; le nombre d'occupants est celui des membres
+    energy: EnergyData;
+    cars: HouseholdCar[];
+    members: HouseholdMember[];
+}
+
+export interface CarbonFootprintResult {
+    total: number;
+    breakdown: {
+        transport: number;
+        energy: number;
+        lifestyle: number;
+    };
+    comparison: {
+        percentageFromNational: number;
+        percentageFromWorld: number;
+        nationalAverage: number;
+        worldAverage: number;
+    };
+    country: string;
+    factorDataset: FactorDatasetRef;
+}
+
+// Intervalle de confiance d'une valeur, en tonnes CO2e par an
+export interface Interval {
+    low: number;
+    high: number;
+}
+
+export interface FootprintUncertainty {
+    // Niveau de confiance des intervalles (0.95 pour 95 %)
+    confidence: number;
+    samples: number;
+    total: Interval;
+    breakdown: {
+        transport: Interval;
+        energy: Interval;
+        lifestyle: Interval;
+    };
+}
+
+export interface RecommendationAction {
+    id: string;
+    category: string;
+    title: string;
+    description: string;
+    effort: string;
+    cost: string;
+    savings: number;
+}
+
+// Corps de POST /api/footprint : les réponses, et parmi elles les valeurs chiffrées estimées
+export interface FootprintRequest extends FormData {
+    estimatedPaths?: string[];
+}
+
+// Réponse de POST /api/footprint
+export interface FootprintResponse {
+    result: CarbonFootprintResult;
+    recommendations: RecommendationAction[];
+    factorDataset: FactorDatasetRef;
+    uncertainty: FootprintUncertainty;
+    // Valeurs acceptées mais peu plausibles
+    warnings: IssueDetail[];
+}
+
+export interface MemberFootprint {
+    id: string;
+    name: string;
+    total: number;
+    breakdown: CarbonFootprintResult["breakdown"];
+    // Part des voitures du foyer incluse dans le transport
+    carShare: number;
+}
+
+export interface HouseholdFootprintResult {
+    total: number;
+    breakdown: CarbonFootprintResult["breakdown"];
+    members: MemberFootprint[];
+    // Moyenne par membre comparée aux moyennes nationale et mondiale
+    comparison: CarbonFootprintResult["comparison"];
+    country: string;
+    factorDataset: FactorDatasetRef;
+}
+
+// Contribution anonyme à une équipe : aucune réponse ni identifiant, seulement le résultat
+export interface TeamSubmission {
+    total: number;
+    breakdown: CarbonFootprintResult["breakdown"];
+    // Mois d'envoi (AAAA-MM), pour suivre la participation sans dater précisément chaque envoi
+    month: string;
+}
+
+export interface TeamDistributionBucket {
+    // Bornes en tonnes CO2e/an ; la dernière tranche n'a pas de maximum
+    from: number;
+    to: number | null;
+    count: number;
+}
+
+export interface TeamAggregate {
+    // Participants pris en compte : le dernier lot complet de MIN_GROUP_SIZE envois
+    participants: number;
+    median: number;
+    mean: number;
+    sectorAverages: CarbonFootprintResult["breakdown"];
+    distribution: TeamDistributionBucket[];
+}
+
+export interface TeamSummary {
+    code: string;
+    name: string;
+    participants: number;
+    minGroupSize: number;
+    // Absent tant que l'équipe compte moins de minGroupSize participants
+    aggregate: TeamAggregate | null;
+}
+
+// Réponse de POST /api/teams ; la clé d'administration n'est renvoyée qu'à la création
+export interface TeamCreated {
+    code: string;
+    name: string;
+    adminKey: string;
+}
+
+// Réponse de POST /api/teams/<code>/submissions
+export interface TeamSubmissionReceipt {
+    name: string;
+    participants: number;
+}
@@ -0,0 +1,143 @@
+// lib/uncertainty.ts
+// Intervalles de confiance du résultat par tirages Monte Carlo : chaque facteur
+// d'émission varie selon son incertitude, chaque réponse chiffrée signalée comme
+// estimée selon ESTIMATED_INPUT_UNCERTAINTY. Le générateur a une graine fixe :
+// un même calcul donne toujours les mêmes intervalles.
+
+import {applyCountryFactors, getCountryProfile, type CountryProfile} from "@/lib/countries";
+import {
+    calculateEnergyEmissions,
+    calculateLifestyleEmissions,
+    calculateTransportEmissions,
+} from "@/lib/emissions";
+import {getFactorDataset, type EmissionFactor, type FactorDataset, type FactorTable} from "@/lib/factors";
+import type {FootprintUncertainty, FormData, Interval} from "@/lib/types";
+import type {ValidationIssue} from "@/lib/validation";
+import {getFormValue, NUMERIC_FIELDS, setFormValue} from "@/lib/wizard";
+
+export const UNCERTAINTY_SAMPLES = 1000;
+export const CONFIDENCE_LEVEL = 0.95;
+
+// Incertitude relative d'une réponse estimée, comme celle des facteurs
+export const ESTIMATED_INPUT_UNCERTAINTY = 0.3;
+
+// Réponses qui peuvent être signalées comme estimées
+export const ESTIMABLE_PATHS = NUMERIC_FIELDS
+    .map((field) => field.path)
+    .filter((path, index, paths) => paths.indexOf(path) === index);
+
+const SEED = 0x5eed;
+
+// Quantile à 97,5 % de la loi normale : les incertitudes sont données à 95 %
+const Z_95 = 1.96;
+
+type Random = () => number;
+
+// Générateur pseudo-aléatoire mulberry32, uniforme sur [0, 1[
+const createRandom = (seed: number): Random => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let value = state;
+        value = Math.imul(value ^ (value >>> 15), value | 1);
+        value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+        return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Loi normale centrée réduite (Box-Muller)
+const normal = (random: Random) =>
+    Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+// Multiplicateur log-normal de médiane 1 : 95 % des tirages entre 1 / (1 + u) et 1 + u
+const multiplier = (uncertainty: number, random: Random) =>
+    uncertainty > 0 ? Math.exp((Math.log(1 + uncertainty) / Z_95) * normal(random)) : 1;
+
+const sampleFactor = (factor: EmissionFactor, random: Random): EmissionFactor => ({
+    ...factor,
+    value: factor.value * multiplier(factor.uncertainty ?? 0, random),
+});
+
+const sampleTable = (table: FactorTable, random: Random): FactorTable =>
+    Object.fromEntries(Object.entries(table).map(([key, factor]) => [key, sampleFactor(factor, random)]));
+
+const sampleDataset = (dataset: FactorDataset, country: CountryProfile, random: Random): FactorDataset => {
+    const factors = Object.fromEntries(
+        Object.entries(dataset.factors).map(([name, table]) => [name, sampleTable(table, random)])
+    ) as FactorDataset["factors"];
+    // Un seul tirage du réseau du pays : électricité et chauffage électrique varient ensemble
+    return applyCountryFactors({...dataset, factors}, {
+        ...country,
+        electricity: sampleFactor(country.electricity, random),
+        heatPump: sampleFactor(country.heatPump, random),
+    });
+};
+
+// Les réponses à choix estimées gardent leur valeur : seules les réponses chiffrées varient
+const sampleInputs = (formData: FormData, estimatedPaths: string[], random: Random) =>
+    estimatedPaths.reduce((sample, path) => {
+        const value = getFormValue(sample, path);
+        const field = NUMERIC_FIELDS.find((candidate) => candidate.path === path);
+        if (typeof value !== "number" || !field) {
+            return sample;
+        }
+        const sampled = value * multiplier(ESTIMATED_INPUT_UNCERTAINTY, random);
+        return setFormValue(sample, path, field.max === undefined ? sampled : Math.min(sampled, field.max));
+    }, formData);
+
+// estimatedPaths reçu tel quel (API) : une liste de chemins de réponses chiffrées
+export const validateEstimatedPaths = (value: unknown): ValidationIssue[] => {
+    if (value === undefined) {
+        return [];
+    }
+    if (!Array.isArray(value)) {
+        return [{path: "estimatedPaths", severity: "error", code: "type"}];
+    }
+    return value.flatMap((path, index): ValidationIssue[] =>
+        ESTIMABLE_PATHS.includes(path) ? [] : [{path: `estimatedPaths.${index}`, severity: "error", code: "option"}]
+    );
+};
+
+// Quantile d'une série triée, par interpolation linéaire
+const quantile = (sorted: number[], level: number) => {
+    const position = (sorted.length - 1) * level;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const interval = (values: number[]): Interval => {
+    const sorted = values.sort((a, b) => a - b);
+    const tail = (1 - CONFIDENCE_LEVEL) / 2;
+    return {low: quantile(sorted, tail), high: quantile(sorted, 1 - tail)};
+};
+
+export const estimateUncertainty = (
+    formData: FormData,
+    estimatedPaths: string[] = [],
+    dataset: FactorDataset = getFactorDataset(),
+    samples: number = UNCERTAINTY_SAMPLES
+): FootprintUncertainty => {
+    const random = createRandom(SEED);
+    const country = getCountryProfile(formData.country);
+
+    const draws = Array.from({length: samples}, () => {
+        const sampledDataset = sampleDataset(dataset, country, random);
+        const inputs = sampleInputs(formData, estimatedPaths, random);
+        const transport = calculateTransportEmissions(inputs.transport, sampledDataset);
+        const energy = calculateEnergyEmissions(inputs.energy, sampledDataset);
+        const lifestyle = calculateLifestyleEmissions(inputs.lifestyle, inputs.energy.heatingType, sampledDataset);
+        return {total: transport + energy + lifestyle, transport, energy, lifestyle};
+    });
+
+    return {
+        confidence: CONFIDENCE_LEVEL,
+        samples,
+        total: interval(draws.map((draw) => draw.total)),
+        breakdown: {
+            transport: interval(draws.map((draw) => draw.transport)),
+            energy: interval(draws.map((draw) => draw.energy)),
+            lifestyle: interval(draws.map((draw) => draw.lifestyle)),
+        },
+    };
+};
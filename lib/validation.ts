@@ -0,0 +1,323 @@
+// lib/validation.ts
+// Validation des réponses : chaque règle porte sur un chemin de FormData
+// ("transport.carKm", "*" pour les éléments d'une liste ou les entrées d'un
+// dictionnaire). Les erreurs bloquent
+// le questionnaire, les avertissements signalent une valeur peu plausible.
+// Les mêmes règles servent aux données du mode foyer (voitures partagées).
+
+import {findAirport} from "@/lib/airports";
+import {COMMUTE_MODES} from "@/lib/commute";
+import {COUNTRIES} from "@/lib/countries";
+import {usesHeatingEstimate} from "@/lib/emissions";
+import {
+    CABIN_CLASSES,
+    CAR_TYPES,
+    DIET_TYPES,
+    HEATING_TYPES,
+    HOME_TYPES,
+    HOUSING_STATUSES,
+    INSULATION_LEVELS,
+    MEAT_FREQUENCIES,
+    PASSENGER_COUNTS,
+    PUBLIC_TRANSPORT_TYPES,
+    TWO_WHEELER_TYPES,
+} from "@/lib/options";
+import {initialFormData} from "@/lib/form-data";
+import type {FormData, HouseholdData} from "@/lib/types";
+
+export const ISSUE_SEVERITIES = ["error", "warning"] as const;
+
+export type IssueSeverity = typeof ISSUE_SEVERITIES[number];
+
+export const ISSUE_CODES = [
+    "required",
+    "notANumber",
+    "integer",
+    "min",
+    "max",
+    "option",
+    "unknownAirport",
+    "implausible",
+    "type",
+    "ignored",
+    "commuteVehicle",
+] as const;
+
+export type IssueCode = typeof ISSUE_CODES[number];
+
+export interface ValidationIssue {
+    path: string;
+    severity: IssueSeverity;
+    code: IssueCode;
+    params?: Record<string, number>;
+}
+
+interface BaseRule<T> {
+    path: string;
+    // La règle ne s'applique que si la question est posée
+    when?: (values: T) => boolean;
+}
+
+interface NumberRule<T> extends BaseRule<T> {
+    type: "number";
+    min?: number;
+    max?: number;
+    integer?: boolean;
+    plausibleMax?: number | ((values: T) => number);
+}
+
+interface ChoiceRule<T> extends BaseRule<T> {
+    type: "choice";
+    options: readonly (string | number)[];
+}
+
+interface AirportRule<T> extends BaseRule<T> {
+    type: "airport";
+}
+
+// Case à cocher d'un élément de liste, que validateTypes ne parcourt pas
+interface BooleanRule<T> extends BaseRule<T> {
+    type: "boolean";
+}
+
+// Porte sur les clés d'un dictionnaire ("...km.*") plutôt que sur ses valeurs
+interface KeyRule<T> extends BaseRule<T> {
+    type: "key";
+    options: readonly string[];
+}
+
+// Valeur fournie mais remplacée par une estimation : simple avertissement
+interface IgnoredRule<T> extends BaseRule<T> {
+    type: "ignored";
+}
+
+// Réponse dont dépendent d'autres réponses : erreur dès que la condition est remplie
+interface MissingRule<T> extends BaseRule<T> {
+    type: "missing";
+    code: IssueCode;
+    when: (values: T) => boolean;
+}
+
+export type FieldRule<T = FormData> =
+    | NumberRule<T>
+    | ChoiceRule<T>
+    | AirportRule<T>
+    | BooleanRule<T>
+    | KeyRule<T>
+    | IgnoredRule<T>
+    | MissingRule<T>;
+
+const hasCar = ({transport}: FormData) => transport.carType !== "none";
+const hasTwoWheeler = ({transport}: FormData) => transport.motorcycle.owns;
+const usesPublicTransport = ({transport}: FormData) =>
+    transport.publicTransportType !== "" && transport.publicTransportType !== "none";
+const simpleFlights = ({transport}: FormData) => !transport.detailedFlights;
+const detailedFlights = ({transport}: FormData) => transport.detailedFlights;
+const knownHeatingConsumption = ({energy}: FormData) => !usesHeatingEstimate(energy);
+const estimatedHeatingConsumption = ({energy}: FormData) => usesHeatingEstimate(energy);
+const commutesBy = (mode: string) => ({transport}: FormData) =>
+    transport.commutes.some((trip) => trip.mode === mode);
+const eatsMeat = ({lifestyle}: FormData) => ["flexitarian", "omnivore"].includes(lifestyle.dietType);
+
+// Au-delà, la consommation de chauffage est inhabituelle pour un logement (m³, litres ou kWh)
+const plausibleHeatingConsumption = ({energy}: FormData) =>
+    energy.heatingType === "gas" || energy.heatingType === "oil" ? 5000 : 50000;
+
+export const FORM_DATA_SCHEMA: FieldRule[] = [
+    {path: "country", type: "choice", options: COUNTRIES.map((country) => country.code)},
+
+    {path: "transport.commutes.*.mode", type: "choice", options: COMMUTE_MODES},
+    {path: "transport.commutes.*.distanceKm", type: "number", min: 0, max: 1000, plausibleMax: 200},
+    {path: "transport.commutes.*.tripsPerWeek", type: "number", min: 0, max: 50, plausibleMax: 14},
+    {path: "transport.commutes.*.weeksPerYear", type: "number", min: 0, max: 52},
+    {path: "transport.carType", type: "choice", options: CAR_TYPES},
+    // Les trajets en voiture ou en deux-roues ne sont comptés qu'avec le véhicule décrit
+    {
+        path: "transport.carType",
+        type: "missing",
+        code: "commuteVehicle",
+        when: (values) => commutesBy("car")(values) && !hasCar(values),
+    },
+    {path: "transport.carAge", type: "number", min: 0, max: 60, integer: true, when: hasCar},
+    {path: "transport.carKm", type: "number", min: 0, max: 500000, plausibleMax: 100000, when: hasCar},
+    {path: "transport.carPassengers", type: "choice", options: PASSENGER_COUNTS, when: hasCar},
+    {
+        path: "transport.motorcycle.owns",
+        type: "missing",
+        code: "commuteVehicle",
+        when: (values) => commutesBy("motorcycle")(values) && !hasTwoWheeler(values),
+    },
+    {path: "transport.motorcycle.type", type: "choice", options: TWO_WHEELER_TYPES, when: hasTwoWheeler},
+    {path: "transport.motorcycle.km", type: "number", min: 0, max: 200000, plausibleMax: 40000, when: hasTwoWheeler},
+    {path: "transport.publicTransportType", type: "choice", options: PUBLIC_TRANSPORT_TYPES},
+    // Kilomètres par mode déduits des trajets réguliers : reçus tels quels par l'API, un lien ou un rapport
+    {
+        path: "transport.publicTransportKmByMode.*",
+        type: "key",
+        options: PUBLIC_TRANSPORT_TYPES.filter((type) => type !== "none"),
+    },
+    {path: "transport.publicTransportKmByMode.*", type: "number", min: 0, max: 500000},
+    {
+        path: "transport.publicTransportKm",
+        type: "number",
+        min: 0,
+        max: 500000,
+        plausibleMax: 60000,
+        when: usesPublicTransport,
+    },
+    {path: "transport.flightsShortHaul", type: "number", min: 0, max: 500, integer: true, plausibleMax: 50, when: simpleFlights},
+    {path: "transport.flightsMediumHaul", type: "number", min: 0, max: 500, integer: true, plausibleMax: 30, when: simpleFlights},
+    {path: "transport.flightsLongHaul", type: "number", min: 0, max: 500, integer: true, plausibleMax: 20, when: simpleFlights},
+    {path: "transport.flightLegs.*.origin", type: "airport", when: detailedFlights},
+    {path: "transport.flightLegs.*.destination", type: "airport", when: detailedFlights},
+    {path: "transport.flightLegs.*.cabinClass", type: "choice", options: CABIN_CLASSES, when: detailedFlights},
+    {path: "transport.flightLegs.*.returnTrip", type: "boolean", when: detailedFlights},
+
+    {path: "energy.homeType", type: "choice", options: HOME_TYPES},
+    {path: "energy.housingStatus", type: "choice", options: HOUSING_STATUSES},
+    {path: "energy.homeSize", type: "number", min: 5, max: 2000, plausibleMax: 400},
+    {path: "energy.occupants", type: "number", min: 1, max: 30, integer: true, plausibleMax: 10},
+    {path: "energy.insulation", type: "choice", options: INSULATION_LEVELS},
+    {path: "energy.electricityKwh", type: "number", min: 0, max: 200000, plausibleMax: 20000},
+    {path: "energy.heatingType", type: "choice", options: HEATING_TYPES},
+    {
+        path: "energy.heatingConsumption",
+        type: "number",
+        min: 0,
+        max: 500000,
+        plausibleMax: plausibleHeatingConsumption,
+        when: knownHeatingConsumption,
+    },
+    // Locataire ou estimation demandée : une consommation envoyée quand même (API) est signalée
+    {path: "energy.heatingConsumption", type: "ignored", when: estimatedHeatingConsumption},
+    {
+        path: "energy.renewablePercentage",
+        type: "number",
+        min: 0,
+        max: 100,
+        when: ({energy}) => energy.renewableEnergy,
+    },
+
+    {path: "lifestyle.dietType", type: "choice", options: DIET_TYPES},
+    {path: "lifestyle.meatFrequency", type: "choice", options: MEAT_FREQUENCIES, when: eatsMeat},
+    {path: "lifestyle.localFoodPercentage", type: "number", min: 0, max: 100},
+    {path: "lifestyle.shoppingHabits.clothes", type: "number", min: 0, max: 100},
+    {path: "lifestyle.shoppingHabits.electronics", type: "number", min: 0, max: 100},
+    {path: "lifestyle.shoppingHabits.furniture", type: "number", min: 0, max: 100},
+    {path: "lifestyle.waterConsumption", type: "number", min: 0, max: 5000, plausibleMax: 500},
+];
+
+// Voitures du foyer ; les réponses de chaque membre suivent FORM_DATA_SCHEMA
+export const HOUSEHOLD_CARS_SCHEMA: FieldRule<HouseholdData>[] = [
+    {path: "cars.*.carType", type: "choice", options: CAR_TYPES.filter((carType) => carType !== "none")},
+    {path: "cars.*.carAge", type: "number", min: 0, max: 60, integer: true},
+    {path: "cars.*.carKm", type: "number", min: 0, max: 500000, plausibleMax: 100000},
+];
+
+// Valeurs désignées par un chemin, en développant les "*" sur les listes
+const resolvePath = (value: unknown, parts: string[], prefix: string[] = []): { path: string; value: unknown }[] => {
+    if (parts.length === 0) {
+        return [{path: prefix.join("."), value}];
+    }
+    const [part, ...rest] = parts;
+    if (part === "*") {
+        if (Array.isArray(value)) {
+            return value.flatMap((item, index) => resolvePath(item, rest, [...prefix, String(index)]));
+        }
+        return typeof value === "object" && value !== null
+            ? Object.entries(value).flatMap(([key, item]) => resolvePath(item, rest, [...prefix, key]))
+            : [];
+    }
+    const child = typeof value === "object" && value !== null
+        ? (value as Record<string, unknown>)[part]
+        : undefined;
+    return resolvePath(child, rest, [...prefix, part]);
+};
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === "";
+
+const checkNumber = <T>(rule: NumberRule<T>, path: string, value: unknown, values: T): ValidationIssue | null => {
+    if (isEmpty(value)) {
+        return {path, severity: "error", code: "required"};
+    }
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+        return {path, severity: "error", code: "notANumber"};
+    }
+    if (rule.integer && !Number.isInteger(value)) {
+        return {path, severity: "error", code: "integer"};
+    }
+    if (rule.min !== undefined && value < rule.min) {
+        return {path, severity: "error", code: "min", params: {min: rule.min}};
+    }
+    if (rule.max !== undefined && value > rule.max) {
+        return {path, severity: "error", code: "max", params: {max: rule.max}};
+    }
+    const plausibleMax = typeof rule.plausibleMax === "function" ? rule.plausibleMax(values) : rule.plausibleMax;
+    if (plausibleMax !== undefined && value > plausibleMax) {
+        return {path, severity: "warning", code: "implausible", params: {max: plausibleMax}};
+    }
+    return null;
+};
+
+const checkField = <T>(rule: FieldRule<T>, path: string, value: unknown, values: T): ValidationIssue | null => {
+    switch (rule.type) {
+        case "number":
+            return checkNumber(rule, path, value, values);
+        case "choice":
+            if (isEmpty(value)) {
+                return {path, severity: "error", code: "required"};
+            }
+            return rule.options.includes(value as string | number) ? null : {path, severity: "error", code: "option"};
+        case "airport":
+            if (isEmpty(value)) {
+                return {path, severity: "error", code: "required"};
+            }
+            return findAirport(String(value)) ? null : {path, severity: "error", code: "unknownAirport"};
+        case "boolean":
+            return typeof value === "boolean" ? null : {path, severity: "error", code: "type"};
+        case "ignored":
+            return typeof value === "number" && value > 0 ? {path, severity: "warning", code: "ignored"} : null;
+        case "missing":
+            return {path, severity: "error", code: rule.code};
+        case "key":
+            return rule.options.includes(path.slice(path.lastIndexOf(".") + 1))
+                ? null
+                : {path, severity: "error", code: "option"};
+    }
+};
+
+export const validateValues = <T>(values: T, schema: FieldRule<T>[]): ValidationIssue[] =>
+    schema
+        .filter((rule) => !rule.when || rule.when(values))
+        .flatMap((rule) =>
+            resolvePath(values, rule.path.split("."))
+                .map(({path, value}) => checkField(rule, path, value, values))
+                .filter((issue): issue is ValidationIssue => issue !== null)
+        );
+
+export const validateFormData = (formData: FormData, schema: FieldRule[] = FORM_DATA_SCHEMA): ValidationIssue[] =>
+    validateValues(formData, schema);
+
+const jsonType = (value: unknown) => (Array.isArray(value) ? "array" : value === null ? "null" : typeof value);
+
+// Réponses reçues telles quelles (API) : chaque valeur doit avoir le type de sa valeur par défaut.
+// Les champs absents seront complétés par les valeurs par défaut ; les éléments des listes relèvent des règles.
+export const validateTypes = (value: unknown, defaults: unknown = initialFormData, path = ""): ValidationIssue[] => {
+    if (jsonType(value) !== jsonType(defaults)) {
+        return [{path, severity: "error", code: "type"}];
+    }
+    if (jsonType(value) !== "object") {
+        return [];
+    }
+    const entries = Object.entries(defaults as Record<string, unknown>);
+    return entries.flatMap(([key, entry]) => {
+        const child = (value as Record<string, unknown>)[key];
+        return child === undefined ? [] : validateTypes(child, entry, path ? `${path}.${key}` : key);
+    });
+};
+
+export const hasErrors = (issues: ValidationIssue[]) => issues.some((issue) => issue.severity === "error");
+
+// Problèmes portant sur l'un des chemins donnés ou sur l'un de leurs sous-champs
+export const issuesUnder = (issues: ValidationIssue[], paths: string[]) =>
+    issues.filter((issue) => paths.some((path) => issue.path === path || issue.path.startsWith(`${path}.`)));
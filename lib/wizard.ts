@@ -0,0 +1,609 @@
+// lib/wizard.ts
+// Description du questionnaire : étapes, sous-étapes et champs liés à un
+// chemin de FormData. Le composant WizardStep dessine chaque sous-étape ;
+// ajouter une question revient à ajouter un champ ici. Une sous-étape dont
+// la condition n'est pas remplie est sautée par la navigation.
+
+import {COUNTRIES} from "@/lib/countries";
+import {estimateHeatingKwh, usesHeatingEstimate} from "@/lib/emissions";
+import type {TranslationParams} from "@/lib/i18n";
+import {
+    CAR_TYPES,
+    DIET_TYPES,
+    HEATING_TYPES,
+    HOME_TYPES,
+    HOUSING_STATUSES,
+    INSULATION_LEVELS,
+    MEAT_FREQUENCIES,
+    PASSENGER_COUNTS,
+    PUBLIC_TRANSPORT_TYPES,
+    TWO_WHEELER_TYPES,
+} from "@/lib/options";
+import type {FormData} from "@/lib/types";
+
+export interface TextContext {
+    formData: FormData;
+    t: (key: string, params?: TranslationParams) => string;
+    formatNumber: (value: number, fractionDigits?: number) => string;
+    formatCountry: (code: string) => string;
+}
+
+// Clé du catalogue de messages, ou texte calculé à partir des réponses
+export type Text = string | ((context: TextContext) => string);
+
+type OptionValue = string | number;
+
+interface BaseField {
+    path: string;
+    label?: Text;
+    hint?: Text;
+    visibleWhen?: (formData: FormData) => boolean;
+}
+
+export interface NumberField extends BaseField {
+    type: "number";
+    min?: number;
+    max?: number;
+}
+
+export interface SelectField extends BaseField {
+    type: "select";
+    placeholder: Text;
+    options: readonly OptionValue[];
+    optionLabel: (value: OptionValue, context: TextContext) => string;
+}
+
+export interface CheckboxField extends BaseField {
+    type: "checkbox";
+}
+
+export interface SliderField extends BaseField {
+    type: "slider";
+    max: number;
+    step: number;
+    valueLabel: string;
+}
+
+// Texte d'information sans saisie
+export interface NoteField extends BaseField {
+    type: "note";
+    text: Text;
+}
+
+// Éditeurs de listes dédiés (trajets réguliers, vols détaillés)
+export interface ListField extends BaseField {
+    type: "commutes" | "flightLegs";
+}
+
+export type WizardField = NumberField | SelectField | CheckboxField | SliderField | NoteField | ListField;
+
+export interface WizardSubStep {
+    id: string;
+    title: Text;
+    intro?: Text;
+    fields: WizardField[];
+    visibleWhen?: (formData: FormData) => boolean;
+}
+
+export interface WizardStep {
+    id: string;
+    subSteps: WizardSubStep[];
+}
+
+const optionLabels = (prefix: string) => (value: OptionValue, {t}: TextContext) => t(`${prefix}.${value}`);
+
+const hasCar = ({transport}: FormData) => transport.carType !== "none";
+const hasTwoWheeler = ({transport}: FormData) => transport.motorcycle.owns;
+const isRenter = ({energy}: FormData) => energy.housingStatus === "renter";
+
+// Avec des trajets réguliers, les kilomètres saisis viennent en complément
+const kmLabel: Text = ({formData, t}) =>
+    t(formData.transport.commutes.length > 0 ? "transport.otherKmPerYear" : "transport.kmPerYear");
+
+const heatingUnitHint: Text = ({formData, t}) => {
+    switch (formData.energy.heatingType) {
+        case "gas":
+            return t("energy.consumption.heatingUnit.gas");
+        case "oil":
+            return t("energy.consumption.heatingUnit.oil");
+        default:
+            return t("energy.consumption.heatingUnit.kwh");
+    }
+};
+
+export const WIZARD_STEPS: WizardStep[] = [
+    {
+        id: "country",
+        subSteps: [
+            {
+                id: "country",
+                title: "country.title",
+                fields: [
+                    {
+                        type: "select",
+                        path: "country",
+                        label: "country.label",
+                        placeholder: "country.placeholder",
+                        hint: "country.hint",
+                        options: COUNTRIES.map((country) => country.code),
+                        optionLabel: (value, {formatCountry}) => formatCountry(String(value)),
+                    },
+                ],
+            },
+        ],
+    },
+    {
+        id: "transport",
+        subSteps: [
+            {
+                id: "commutes",
+                title: "transport.commutes.title",
+                intro: "transport.commutes.hint",
+                fields: [{type: "commutes", path: "transport.commutes"}],
+            },
+            {
+                id: "car",
+                title: "transport.car.title",
+                fields: [
+                    {
+                        type: "select",
+                        path: "transport.carType",
+                        label: "transport.car.owns",
+                        placeholder: "transport.car.typePlaceholder",
+                        options: CAR_TYPES,
+                        optionLabel: optionLabels("options.carType"),
+                    },
+                ],
+            },
+            {
+                id: "carDetails",
+                title: "transport.car.detailsTitle",
+                visibleWhen: hasCar,
+                fields: [
+                    {type: "number", path: "transport.carAge", label: "transport.car.age", min: 0, max: 30},
+                    {type: "number", path: "transport.carKm", label: kmLabel, min: 0},
+                    {
+                        type: "select",
+                        path: "transport.carPassengers",
+                        label: "transport.car.passengers",
+                        placeholder: "transport.car.passengersPlaceholder",
+                        options: PASSENGER_COUNTS,
+                        optionLabel: (value, {t}) => t("transport.car.passengerCount", {count: Number(value)}),
+                    },
+                ],
+            },
+            {
+                id: "twoWheeler",
+                title: "transport.twoWheeler.title",
+                fields: [
+                    {type: "checkbox", path: "transport.motorcycle.owns", label: "transport.twoWheeler.owns"},
+                    {
+                        type: "select",
+                        path: "transport.motorcycle.type",
+                        label: "transport.twoWheeler.type",
+                        placeholder: "transport.twoWheeler.typePlaceholder",
+                        options: TWO_WHEELER_TYPES,
+                        optionLabel: optionLabels("options.twoWheeler"),
+                        visibleWhen: hasTwoWheeler,
+                    },
+                    {type: "number", path: "transport.motorcycle.km", label: kmLabel, min: 0, visibleWhen: hasTwoWheeler},
+                ],
+            },
+            {
+                id: "publicTransport",
+                title: "transport.publicTransport.title",
+                fields: [
+                    {
+                        type: "select",
+                        path: "transport.publicTransportType",
+                        label: "transport.publicTransport.type",
+                        placeholder: "transport.publicTransport.typePlaceholder",
+                        options: PUBLIC_TRANSPORT_TYPES,
+                        optionLabel: optionLabels("options.publicTransport"),
+                    },
+                    {
+                        type: "number",
+                        path: "transport.publicTransportKm",
+                        label: kmLabel,
+                        min: 0,
+                        visibleWhen: ({transport}) => transport.publicTransportType !== "none",
+                    },
+                ],
+            },
+            {
+                id: "flights",
+                title: "transport.flights.title",
+                fields: [
+                    {type: "checkbox", path: "transport.detailedFlights", label: "transport.flights.detailed"},
+                    {
+                        type: "flightLegs",
+                        path: "transport.flightLegs",
+                        visibleWhen: ({transport}) => transport.detailedFlights,
+                    },
+                    {
+                        type: "checkbox",
+                        path: "transport.radiativeForcing",
+                        label: "transport.flights.radiativeForcing",
+                        visibleWhen: ({transport}) => transport.detailedFlights,
+                    },
+                    {
+                        type: "number",
+                        path: "transport.flightsShortHaul",
+                        label: "transport.flights.shortHaul",
+                        min: 0,
+                        visibleWhen: ({transport}) => !transport.detailedFlights,
+                    },
+                    {
+                        type: "number",
+                        path: "transport.flightsMediumHaul",
+                        label: "transport.flights.mediumHaul",
+                        min: 0,
+                        visibleWhen: ({transport}) => !transport.detailedFlights,
+                    },
+                    {
+                        type: "number",
+                        path: "transport.flightsLongHaul",
+                        label: "transport.flights.longHaul",
+                        min: 0,
+                        visibleWhen: ({transport}) => !transport.detailedFlights,
+                    },
+                ],
+            },
+        ],
+    },
+    {
+        id: "energy",
+        subSteps: [
+            {
+                id: "home",
+                title: "energy.home.title",
+                fields: [
+                    {
+                        type: "select",
+                        path: "energy.homeType",
+                        label: "energy.home.type",
+                        placeholder: "energy.home.typePlaceholder",
+                        options: HOME_TYPES,
+                        optionLabel: optionLabels("options.homeType"),
+                    },
+                    {
+                        type: "select",
+                        path: "energy.housingStatus",
+                        label: "energy.home.housingStatus",
+                        placeholder: "energy.home.housingStatusPlaceholder",
+                        options: HOUSING_STATUSES,
+                        optionLabel: optionLabels("options.housingStatus"),
+                    },
+                    {type: "number", path: "energy.homeSize", label: "energy.home.size", min: 0},
+                    {
+                        type: "number",
+                        path: "energy.occupants",
+                        label: "energy.home.occupants",
+                        hint: "energy.home.occupantsHint",
+                        min: 1,
+                    },
+                    {
+                        type: "select",
+                        path: "energy.insulation",
+                        label: "energy.home.insulation",
+                        placeholder: "energy.home.insulationPlaceholder",
+                        options: INSULATION_LEVELS,
+                        optionLabel: optionLabels("options.insulation"),
+                    },
+                ],
+            },
+            {
+                id: "consumption",
+                title: "energy.consumption.title",
+                fields: [
+                    {
+                        type: "number",
+                        path: "energy.electricityKwh",
+                        label: "energy.consumption.electricity",
+                        hint: "energy.consumption.electricityHint",
+                        min: 0,
+                    },
+                    {
+                        type: "select",
+                        path: "energy.heatingType",
+                        label: "energy.consumption.heatingType",
+                        placeholder: "energy.consumption.heatingTypePlaceholder",
+                        options: HEATING_TYPES,
+                        optionLabel: optionLabels("options.heatingType"),
+                    },
+                    {
+                        type: "note",
+                        path: "energy.housingStatus",
+                        text: ({formData, t, formatNumber}) =>
+                            t("energy.consumption.renterEstimate", {
+                                value: formatNumber(estimateHeatingKwh(formData.energy)),
+                            }),
+                        visibleWhen: isRenter,
+                    },
+                ],
+            },
+            {
+                id: "heating",
+                title: "energy.heating.title",
+                visibleWhen: (formData) => !isRenter(formData),
+                fields: [
+                    {type: "checkbox", path: "energy.estimateHeating", label: "energy.consumption.estimateHeating"},
+                    {
+                        type: "note",
+                        path: "energy.estimateHeating",
+                        text: ({formData, t, formatNumber}) =>
+                            t("energy.consumption.estimatedHeating", {
+                                value: formatNumber(estimateHeatingKwh(formData.energy)),
+                            }),
+                        visibleWhen: ({energy}) => energy.estimateHeating,
+                    },
+                    {
+                        type: "number",
+                        path: "energy.heatingConsumption",
+                        label: "energy.consumption.heating",
+                        hint: heatingUnitHint,
+                        min: 0,
+                        visibleWhen: ({energy}) => !usesHeatingEstimate(energy),
+                    },
+                ],
+            },
+            {
+                id: "renewable",
+                title: "energy.renewable.title",
+                fields: [
+                    {type: "checkbox", path: "energy.renewableEnergy", label: "energy.renewable.uses"},
+                    {
+                        type: "slider",
+                        path: "energy.renewablePercentage",
+                        label: "energy.renewable.percentage",
+                        max: 100,
+                        step: 1,
+                        valueLabel: "energy.renewable.percentageValue",
+                        visibleWhen: ({energy}) => energy.renewableEnergy,
+                    },
+                ],
+            },
+        ],
+    },
+    {
+        id: "lifestyle",
+        subSteps: [
+            {
+                id: "diet",
+                title: "lifestyle.diet.title",
+                fields: [
+                    {
+                        type: "select",
+                        path: "lifestyle.dietType",
+                        label: "lifestyle.diet.type",
+                        placeholder: "lifestyle.diet.typePlaceholder",
+                        options: DIET_TYPES,
+                        optionLabel: optionLabels("options.diet"),
+                    },
+                    {
+                        type: "select",
+                        path: "lifestyle.meatFrequency",
+                        label: "lifestyle.diet.meatFrequency",
+                        placeholder: "lifestyle.diet.meatFrequencyPlaceholder",
+                        options: MEAT_FREQUENCIES,
+                        optionLabel: optionLabels("options.meatFrequency"),
+                        visibleWhen: ({lifestyle}) => ["flexitarian", "omnivore"].includes(lifestyle.dietType),
+                    },
+                    {
+                        type: "slider",
+                        path: "lifestyle.localFoodPercentage",
+                        label: "lifestyle.diet.localFood",
+                        max: 100,
+                        step: 5,
+                        valueLabel: "lifestyle.diet.localFoodValue",
+                    },
+                ],
+            },
+            {
+                id: "consumption",
+                title: "lifestyle.consumption.title",
+                fields: [
+                    {
+                        type: "slider",
+                        path: "lifestyle.shoppingHabits.clothes",
+                        label: "lifestyle.consumption.clothes",
+                        max: 100,
+                        step: 1,
+                        valueLabel: "lifestyle.consumption.clothesValue",
+                    },
+                    {
+                        type: "slider",
+                        path: "lifestyle.shoppingHabits.electronics",
+                        label: "lifestyle.consumption.electronics",
+                        max: 100,
+                        step: 1,
+                        valueLabel: "lifestyle.consumption.electronicsValue",
+                    },
+                    {type: "checkbox", path: "lifestyle.wasteRecycling", label: "lifestyle.consumption.recycling"},
+                    {type: "checkbox", path: "lifestyle.wasteComposting", label: "lifestyle.consumption.composting"},
+                ],
+            },
+            {
+                id: "water",
+                title: "lifestyle.water.title",
+                fields: [
+                    {
+                        type: "number",
+                        path: "lifestyle.waterConsumption",
+                        label: "lifestyle.water.daily",
+                        hint: "lifestyle.water.hint",
+                        min: 0,
+                    },
+                ],
+            },
+        ],
+    },
+];
+
+export const getFormValue = (formData: FormData, path: string): unknown =>
+    path.split(".").reduce<unknown>(
+        (value, key) => (typeof value === "object" && value !== null
+            ? (value as Record<string, unknown>)[key]
+            : undefined),
+        formData
+    );
+
+const setIn = (target: unknown, keys: string[], value: unknown): unknown => {
+    if (keys.length === 0) {
+        return value;
+    }
+    const [key, ...rest] = keys;
+    const object = typeof target === "object" && target !== null ? (target as Record<string, unknown>) : {};
+    return {...object, [key]: setIn(object[key], rest, value)};
+};
+
+// Copie de FormData avec la valeur remplacée au chemin donné
+export const setFormValue = (formData: FormData, path: string, value: unknown): FormData =>
+    setIn(formData, path.split("."), value) as FormData;
+
+// Réponses chiffrées, que l'utilisateur peut signaler comme estimées
+export const isNumericField = (field: WizardField): field is NumberField | SliderField =>
+    field.type === "number" || field.type === "slider";
+
+export const isFieldVisible = (field: WizardField, formData: FormData) =>
+    !field.visibleWhen || field.visibleWhen(formData);
+
+// Chemins saisis dans une sous-étape, pour rattacher les erreurs de validation
+export const subStepPaths = (subStep: WizardSubStep) =>
+    subStep.fields.filter((field) => field.type !== "note").map((field) => field.path);
+
+// Champ du questionnaire complet, pour le reprendre dans un autre parcours
+const wizardField = (path: string): WizardField => {
+    const field = WIZARD_STEPS
+        .flatMap((step) => step.subSteps)
+        .flatMap((subStep) => subStep.fields)
+        .find((candidate) => candidate.path === path && candidate.type !== "note");
+    if (!field) {
+        throw new Error(`Unknown wizard field: ${path}`);
+    }
+    return field;
+};
+
+export const NUMERIC_FIELDS = WIZARD_STEPS
+    .flatMap((step) => step.subSteps)
+    .flatMap((subStep) => subStep.fields)
+    .filter(isNumericField);
+
+// Parcours rapide : une dizaine de questions à fort impact, le reste vient d'un profil type
+export const QUICK_WIZARD_STEPS: WizardStep[] = [
+    {
+        id: "country",
+        subSteps: [{id: "country", title: "country.title", fields: [wizardField("country")]}],
+    },
+    {
+        id: "transport",
+        subSteps: [
+            {
+                id: "transport",
+                title: "quick.transport.title",
+                fields: [
+                    wizardField("transport.carType"),
+                    {...wizardField("transport.carKm"), visibleWhen: hasCar},
+                    wizardField("transport.flightsShortHaul"),
+                    wizardField("transport.flightsMediumHaul"),
+                    wizardField("transport.flightsLongHaul"),
+                ],
+            },
+        ],
+    },
+    {
+        id: "energy",
+        subSteps: [
+            {
+                id: "home",
+                title: "quick.energy.title",
+                fields: [
+                    wizardField("energy.homeSize"),
+                    wizardField("energy.occupants"),
+                    wizardField("energy.heatingType"),
+                ],
+            },
+        ],
+    },
+    {
+        id: "lifestyle",
+        subSteps: [{id: "diet", title: "quick.lifestyle.title", fields: [wizardField("lifestyle.dietType")]}],
+    },
+];
+
+const subStepsOf = (stepId: string, subStepIds?: string[]) =>
+    (WIZARD_STEPS.find((step) => step.id === stepId)?.subSteps ?? [])
+        .filter((subStep) => !subStepIds || subStepIds.includes(subStep.id));
+
+// Mode foyer : le pays et le logement sont renseignés une fois (les occupants sont les membres)…
+export const HOUSEHOLD_SHARED_SUB_STEPS: WizardSubStep[] = [
+    ...subStepsOf("country"),
+    ...subStepsOf("energy").map((subStep) => ({
+        ...subStep,
+        fields: subStep.fields.filter((field) => field.path !== "energy.occupants"),
+    })),
+];
+
+// … puis chaque membre répond aux questions personnelles, les voitures étant déclarées pour le foyer
+export const HOUSEHOLD_MEMBER_SUB_STEPS: WizardSubStep[] = [
+    ...subStepsOf("transport", ["twoWheeler", "publicTransport", "flights"]),
+    ...subStepsOf("lifestyle"),
+];
+
+export type WizardMode = "full" | "quick";
+
+export const getWizardSteps = (mode: WizardMode) => (mode === "quick" ? QUICK_WIZARD_STEPS : WIZARD_STEPS);
+
+export interface WizardPosition {
+    step: number;
+    subStep: number;
+}
+
+const comparePositions = (a: WizardPosition, b: WizardPosition) => a.step - b.step || a.subStep - b.subStep;
+
+export const isSubStepVisible = (subStep: WizardSubStep, formData: FormData) =>
+    !subStep.visibleWhen || subStep.visibleWhen(formData);
+
+// Sous-étapes affichées pour ces réponses, dans l'ordre (numérotées à partir de 1)
+export const visiblePositions = (formData: FormData, steps: WizardStep[] = WIZARD_STEPS): WizardPosition[] =>
+    steps.flatMap((step, stepIndex) =>
+        step.subSteps
+            .map((subStep, subStepIndex) => ({subStep, position: {step: stepIndex + 1, subStep: subStepIndex + 1}}))
+            .filter(({subStep}) => isSubStepVisible(subStep, formData))
+            .map(({position}) => position)
+    );
+
+export const getSubStep = (
+    {step, subStep}: WizardPosition,
+    steps: WizardStep[] = WIZARD_STEPS
+): WizardSubStep | undefined => steps[step - 1]?.subSteps[subStep - 1];
+
+export const nextPosition = (formData: FormData, current: WizardPosition, steps: WizardStep[] = WIZARD_STEPS) =>
+    visiblePositions(formData, steps).find((position) => comparePositions(position, current) > 0) ?? null;
+
+// Retour à la dernière sous-étape affichée avant la position courante
+export const previousPosition = (formData: FormData, current: WizardPosition, steps: WizardStep[] = WIZARD_STEPS) =>
+    visiblePositions(formData, steps).reverse().find((position) => comparePositions(position, current) < 0) ?? null;
+
+// Avancement (0-100) et rang de la sous-étape parmi celles affichées de son étape
+export const wizardProgress = (formData: FormData, current: WizardPosition, steps: WizardStep[] = WIZARD_STEPS) => {
+    const positions = visiblePositions(formData, steps);
+    const done = positions.filter((position) => comparePositions(position, current) <= 0).length;
+    const stepPositions = positions.filter((position) => position.step === current.step);
+    return {
+        percentage: positions.length > 0 ? (done / positions.length) * 100 : 0,
+        subStepIndex: stepPositions.filter((position) => position.subStep <= current.subStep).length,
+        subStepCount: stepPositions.length,
+    };
+};
+
+// Chemins réellement demandés à l'utilisateur pour ces réponses
+export const askedPaths = (formData: FormData, steps: WizardStep[] = WIZARD_STEPS) =>
+    visiblePositions(formData, steps).flatMap((position) => {
+        const subStep = getSubStep(position, steps);
+        return subStep
+            ? subStep.fields
+                .filter((field) => field.type !== "note" && isFieldVisible(field, formData))
+                .map((field) => field.path)
+            : [];
+    });
@@ -0,0 +1,39 @@
+// scripts/check-engine.js
+// Vérifie que lib/emissions.ts redonne les résultats du calcul d'origine (celui de
+// app/page.tsx avant l'extraction du moteur) pour quelques réponses représentatives.
+// Les réponses sont au format d'avant : elles passent par la migration du stockage.
+
+const path = require("path");
+const jiti = require("jiti")(__filename, {interopDefault: true, alias: {"@": path.resolve(__dirname, "..")}});
+
+const {calculateCarbonFootprint} = jiti("@/lib/emissions");
+const {migrateFormData} = jiti("@/lib/storage");
+const fixtures = require("./engine-fixtures.json");
+
+// Les valeurs attendues sont celles du calcul d'origine, au bruit des flottants près
+const TOLERANCE = 1e-9;
+
+const compare = (label, actual, expected) =>
+    Math.abs(actual - expected) <= TOLERANCE ? [] : [`${label}: ${actual} (expected ${expected})`];
+
+let failures = 0;
+fixtures.forEach(({name, input, expected}) => {
+    const result = calculateCarbonFootprint(migrateFormData(input, 1));
+    const errors = [
+        ...compare("total", result.total, expected.total),
+        ...Object.entries(expected.breakdown).flatMap(([category, value]) =>
+            compare(category, result.breakdown[category], value)
+        ),
+    ];
+    if (errors.length > 0) {
+        failures++;
+        console.error(`✗ ${name}\n  ${errors.join("\n  ")}`);
+    } else {
+        console.log(`✓ ${name}`);
+    }
+});
+
+if (failures > 0) {
+    console.error(`${failures}/${fixtures.length} fixture(s) failed`);
+    process.exit(1);
+}